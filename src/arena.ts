@@ -0,0 +1,194 @@
+import Matter from 'matter-js';
+import { OTHER_SECTOR } from './universe';
+import { Random } from './random';
+import { Rect } from './layout';
+
+// World layouts: how the space below the header is carved into arenas and
+// which coin lives in which arena. PhysicsWorld builds walls from the arenas,
+// the renderer draws their outlines.
+
+export type ArenaShape = 'rect' | 'circle';
+
+export interface Arena extends Rect {
+  shape: ArenaShape; // 'circle' is inscribed in the bounding rect
+  label?: string; // Drawn in the corner, e.g. the sector name
+}
+
+export interface ArenaPlan {
+  arenas: Arena[];
+  assignment: Map<string, number>; // coinId -> index into arenas
+}
+
+export interface LayoutCoin {
+  id: string;
+  sector: string;
+}
+
+export interface WorldLayout {
+  name: string;
+  description: string;
+  arrange(box: Rect, coins: LayoutCoin[]): ArenaPlan;
+}
+
+const single = (arena: Arena, coins: LayoutCoin[]): ArenaPlan => ({
+  arenas: [arena],
+  assignment: new Map(coins.map(c => [c.id, 0])),
+});
+
+const square: WorldLayout = {
+  name: 'square',
+  description: 'One square box (the classic look)',
+  arrange: (box, coins) => single({ ...box, shape: 'rect' }, coins),
+};
+
+const circle: WorldLayout = {
+  name: 'circle',
+  description: 'One round arena inscribed in the square box',
+  arrange: (box, coins) => single({ ...box, shape: 'circle' }, coins),
+};
+
+const tall: WorldLayout = {
+  name: 'tall',
+  description: 'Narrow, tall rectangle; gives gravity mode more room to rise and sink',
+  arrange: (box, coins) => {
+    const width = Math.round(box.width * 0.6);
+    return single({ x: box.x + (box.width - width) / 2, y: box.y, width, height: box.height, shape: 'rect' }, coins);
+  },
+};
+
+// At most four arenas; the smallest sectors are merged into "Other".
+const MAX_SPLIT_ARENAS = 4;
+const SPLIT_GAP = 24;
+
+const split: WorldLayout = {
+  name: 'split',
+  description: 'One arena per sector (up to four), side by side or in a 2x2 grid',
+  arrange: (box, coins) => {
+    const bySector = new Map<string, string[]>();
+    coins.forEach(c => bySector.set(c.sector, [...(bySector.get(c.sector) || []), c.id]));
+
+    // Biggest sectors first, "Other" always last
+    let groups = Array.from(bySector.entries())
+      .filter(([sector]) => sector !== OTHER_SECTOR)
+      .sort((a, b) => b[1].length - a[1].length);
+    const other = bySector.get(OTHER_SECTOR) || [];
+    if (groups.length + (other.length > 0 ? 1 : 0) > MAX_SPLIT_ARENAS) {
+      groups.slice(MAX_SPLIT_ARENAS - 1).forEach(([, ids]) => other.push(...ids));
+      groups = groups.slice(0, MAX_SPLIT_ARENAS - 1);
+    }
+    if (other.length > 0) groups.push([OTHER_SECTOR, other]);
+    if (groups.length <= 1) {
+      return single({ ...box, shape: 'rect', label: groups[0]?.[0] }, coins);
+    }
+
+    const cols = 2;
+    const rows = groups.length <= 2 ? 1 : 2;
+    const cellW = (box.width - SPLIT_GAP * (cols - 1)) / cols;
+    const cellH = (box.height - SPLIT_GAP * (rows - 1)) / rows;
+
+    const plan: ArenaPlan = { arenas: [], assignment: new Map() };
+    groups.forEach(([sector, ids], i) => {
+      const col = i % cols;
+      const row = Math.floor(i / cols);
+      plan.arenas.push({
+        x: box.x + col * (cellW + SPLIT_GAP),
+        y: box.y + row * (cellH + SPLIT_GAP),
+        width: cellW,
+        height: cellH,
+        shape: 'rect',
+        label: sector,
+      });
+      ids.forEach(id => plan.assignment.set(id, i));
+    });
+    return plan;
+  },
+};
+
+const layouts = new Map<string, WorldLayout>(
+  [square, circle, tall, split].map(l => [l.name, l])
+);
+
+export function getWorldLayout(name: string): WorldLayout {
+  const layout = layouts.get(name);
+  if (!layout) {
+    throw new Error(`Unknown layout "${name}" (available: ${Array.from(layouts.keys()).join(', ')})`);
+  }
+  return layout;
+}
+
+// Ring approximated by this many straight segments
+const CIRCLE_SEGMENTS = 48;
+
+// Static wall bodies enclosing the arena from the outside
+export function createArenaWalls(arena: Arena, thickness = 100): Matter.Body[] {
+  const wallOptions = { isStatic: true, friction: 0.0, restitution: 0.0 };
+
+  if (arena.shape === 'circle') {
+    const cx = arena.x + arena.width / 2;
+    const cy = arena.y + arena.height / 2;
+    const r = Math.min(arena.width, arena.height) / 2;
+    // Segment length covers the chord at the outer edge so there are no gaps
+    const segment = 2 * (r + thickness) * Math.tan(Math.PI / CIRCLE_SEGMENTS);
+
+    return Array.from({ length: CIRCLE_SEGMENTS }, (_, i) => {
+      const angle = (i / CIRCLE_SEGMENTS) * Math.PI * 2;
+      const d = r + thickness / 2;
+      return Matter.Bodies.rectangle(
+        cx + Math.cos(angle) * d,
+        cy + Math.sin(angle) * d,
+        thickness,
+        segment,
+        { ...wallOptions, angle }
+      );
+    });
+  }
+
+  const { x, y, width, height } = arena;
+  return [
+    // Top / Bottom
+    Matter.Bodies.rectangle(x + width / 2, y - thickness / 2, width + thickness * 2, thickness, wallOptions),
+    Matter.Bodies.rectangle(x + width / 2, y + height + thickness / 2, width + thickness * 2, thickness, wallOptions),
+    // Left / Right
+    Matter.Bodies.rectangle(x - thickness / 2, y + height / 2, thickness, height + thickness * 2, wallOptions),
+    Matter.Bodies.rectangle(x + width + thickness / 2, y + height / 2, thickness, height + thickness * 2, wallOptions),
+  ];
+}
+
+// Uniform random point at least `buffer` away from the arena edge
+export function randomPointIn(arena: Arena, buffer: number, random: Random): Matter.Vector {
+  if (arena.shape === 'circle') {
+    const r = Math.max(0, Math.min(arena.width, arena.height) / 2 - buffer);
+    const angle = random() * Math.PI * 2;
+    const dist = r * Math.sqrt(random());
+    return {
+      x: arena.x + arena.width / 2 + Math.cos(angle) * dist,
+      y: arena.y + arena.height / 2 + Math.sin(angle) * dist,
+    };
+  }
+  return {
+    x: arena.x + buffer + random() * Math.max(0, arena.width - 2 * buffer),
+    y: arena.y + buffer + random() * Math.max(0, arena.height - 2 * buffer),
+  };
+}
+
+// Nearest point inside the arena (shrunk by `buffer`), or null if already inside
+export function clampToArena(arena: Arena, pos: Matter.Vector, buffer: number): Matter.Vector | null {
+  if (arena.shape === 'circle') {
+    const cx = arena.x + arena.width / 2;
+    const cy = arena.y + arena.height / 2;
+    const maxDist = Math.max(0, Math.min(arena.width, arena.height) / 2 - buffer);
+    const dx = pos.x - cx;
+    const dy = pos.y - cy;
+    const dist = Math.sqrt(dx * dx + dy * dy);
+    if (dist <= maxDist) return null;
+    return { x: cx + (dx / dist) * maxDist, y: cy + (dy / dist) * maxDist };
+  }
+
+  const minX = arena.x + buffer;
+  const maxX = arena.x + arena.width - buffer;
+  const minY = arena.y + buffer;
+  const maxY = arena.y + arena.height - buffer;
+  const x = Math.max(minX, Math.min(maxX, pos.x));
+  const y = Math.max(minY, Math.min(maxY, pos.y));
+  return x === pos.x && y === pos.y ? null : { x, y };
+}
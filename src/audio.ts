@@ -2,6 +2,10 @@ import fs from 'fs';
 import path from 'path';
 import { config } from './config';
 
+// 'coin'/'wall' are sampled from assets/sounds; 'chime'/'alert' are synthesized
+// for market events (see events.ts), so they work without extra asset files.
+export type SoundName = 'coin' | 'wall' | 'chime' | 'alert';
+
 export class AudioMixer {
   private sampleRate = 44100;
   private buffer: Float32Array;
@@ -30,9 +34,32 @@ export class AudioMixer {
 
     await loadFile('coin', 'coin.pcm');
     await loadFile('wall', 'wall.pcm');
+
+    // Rising two-note bell for good news, falling pair for bad news
+    this.assets.set('chime', this.synthesizeNotes([880, 1318.5], 0.09, 0.6));
+    this.assets.set('alert', this.synthesizeNotes([392, 261.6], 0.12, 0.5));
+  }
+
+  // Sine notes with a soft overtone and exponential decay, each starting
+  // `spacingSec` after the previous one
+  private synthesizeNotes(frequencies: number[], spacingSec: number, decaySec: number): Float32Array {
+    const noteSamples = Math.floor(decaySec * this.sampleRate);
+    const spacing = Math.floor(spacingSec * this.sampleRate);
+    const out = new Float32Array(spacing * (frequencies.length - 1) + noteSamples);
+    const amplitude = 0.3;
+
+    frequencies.forEach((freq, n) => {
+      for (let i = 0; i < noteSamples; i++) {
+        const t = i / this.sampleRate;
+        const envelope = Math.exp(-5 * t / decaySec) * Math.min(1, i / 200); // 200-sample attack avoids clicks
+        const wave = Math.sin(2 * Math.PI * freq * t) + 0.3 * Math.sin(4 * Math.PI * freq * t);
+        out[n * spacing + i] += amplitude * envelope * wave;
+      }
+    });
+    return out;
   }
 
-  addEvent(timeSec: number, type: 'coin' | 'wall', volume: number = 1.0) {
+  addEvent(timeSec: number, type: SoundName, volume: number = 1.0) {
     const asset = this.assets.get(type);
     if (!asset) return;
 
@@ -44,8 +71,8 @@ export class AudioMixer {
     
     const actualEnd = Math.min(endSample, this.buffer.length);
 
-    // Mix
-    for (let i = startSample; i < actualEnd; i++) {
+    // Mix (sounds that started before the buffer, e.g. in a --frames render, contribute their tail)
+    for (let i = Math.max(0, startSample); i < actualEnd; i++) {
       const assetIndex = i - startSample;
       this.buffer[i] += asset[assetIndex] * volume;
     }
@@ -0,0 +1,187 @@
+import { Config } from './config';
+import { loadNamedEntries, resolveExtendsChain } from './named-entries';
+
+// Named sets of the constants that give coins their "feel". Built-in profiles
+// live here; editors add their own in behaviors.yaml (or .json):
+//
+//   bouncy:
+//     extends: chaotic     # optional, defaults to "default"
+//     restitution: 1.3
+//
+// Lengths are in pixels of the reference 960px box (scaled by SceneLayout.coinScale).
+// Velocities are Matter.js units (px per 1/60 s), independent of frame rate.
+
+export interface BehaviorProfile {
+  // Size from trend: r = radiusBase * (1 + trendGain * trend), clamped to [radiusMin, radiusMax]
+  radiusBase: number;
+  radiusMin: number;
+  radiusMax: number;
+  trendGain: number;
+  radiusFollowAlpha: number; // Easing towards the target radius, per 30 fps frame
+  volFollowAlpha: number; // Easing of the volatility that drives hops, per 30 fps frame
+
+  // Collisions & speed
+  restitution: number; // > 1 = super-elastic, explosive rebounds
+  frictionAir: number;
+  maxVelocity: number;
+  stunVelocity: number; // Faster than this: stunned, no hops
+  recoveryVelocity: number; // Slower than this: recovered
+
+  // Hops: strength and interval interpolate with the Sharpe-like ratio trend / (vol + sharpeVolFloor)
+  hopForcePerArea: number; // Force ~ r^2
+  hopForceMin: number; // Multiplier at the worst Sharpe
+  hopForceMax: number; // Multiplier at the best Sharpe
+  hopFrames: number; // How long the hop force is applied, in 30 fps frames
+  hopIntervalMinMs: number; // Wait after a hop at the worst Sharpe (nervous twitching)
+  hopIntervalMaxMs: number; // Wait after a hop at the best Sharpe
+  sharpeClamp: number; // Ratio is clamped to ±this before mapping
+  sharpeVolFloor: number; // Added to volatility to avoid division by zero
+}
+
+export const DEFAULT_BEHAVIOR: BehaviorProfile = {
+  radiusBase: 42,
+  radiusMin: 20,
+  radiusMax: 130,
+  trendGain: 2.5,
+  radiusFollowAlpha: 0.05,
+  volFollowAlpha: 0.02,
+  restitution: 1.1,
+  frictionAir: 0.01,
+  maxVelocity: 12,
+  stunVelocity: 15,
+  recoveryVelocity: 1,
+  hopForcePerArea: 0.0002,
+  hopForceMin: 0.05,
+  hopForceMax: 3.0,
+  hopFrames: 5,
+  hopIntervalMinMs: 150,
+  hopIntervalMaxMs: 4000,
+  sharpeClamp: 5,
+  sharpeVolFloor: 0.1,
+};
+
+type ProfileEntry = Partial<BehaviorProfile> & { extends?: string };
+
+const BUILTIN_PROFILES: Record<string, ProfileEntry> = {
+  default: {},
+  // Slow, soft and readable: for long ranges and calm markets
+  calm: {
+    trendGain: 2.0,
+    radiusFollowAlpha: 0.03,
+    restitution: 0.9,
+    frictionAir: 0.02,
+    maxVelocity: 6,
+    stunVelocity: 10,
+    hopForceMax: 1.2,
+    hopIntervalMinMs: 800,
+    hopIntervalMaxMs: 6000,
+  },
+  // Everything louder: for crash/pump episodes
+  chaotic: {
+    trendGain: 3.0,
+    radiusFollowAlpha: 0.1,
+    restitution: 1.25,
+    frictionAir: 0.005,
+    maxVelocity: 20,
+    stunVelocity: 25,
+    hopForceMin: 0.3,
+    hopForceMax: 5.0,
+    hopIntervalMinMs: 80,
+    hopIntervalMaxMs: 2000,
+  },
+};
+
+// Accepted range per field; anything outside is almost certainly a typo
+const LIMITS: Record<keyof BehaviorProfile, [number, number]> = {
+  radiusBase: [5, 300],
+  radiusMin: [1, 300],
+  radiusMax: [1, 400],
+  trendGain: [0, 20],
+  radiusFollowAlpha: [0.001, 1],
+  volFollowAlpha: [0.001, 1],
+  restitution: [0, 2],
+  frictionAir: [0, 1],
+  maxVelocity: [0.1, 200],
+  stunVelocity: [0.1, 200],
+  recoveryVelocity: [0, 100],
+  hopForcePerArea: [0, 0.01],
+  hopForceMin: [0, 20],
+  hopForceMax: [0, 20],
+  hopFrames: [1, 60],
+  hopIntervalMinMs: [16, 60000],
+  hopIntervalMaxMs: [16, 60000],
+  sharpeClamp: [0.1, 100],
+  sharpeVolFloor: [0.001, 10],
+};
+
+const INTEGER_FIELDS = new Set<keyof BehaviorProfile>(['hopFrames']);
+
+export function validateBehavior(values: Record<string, unknown>, source: string): BehaviorProfile {
+  const problems: string[] = [];
+
+  for (const key of Object.keys(values)) {
+    if (!(key in LIMITS)) problems.push(`unknown field "${key}"`);
+  }
+
+  const profile = { ...DEFAULT_BEHAVIOR };
+  (Object.keys(LIMITS) as (keyof BehaviorProfile)[]).forEach(key => {
+    if (!(key in values)) return;
+    const value = values[key];
+    const [min, max] = LIMITS[key];
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      problems.push(`${key} must be a number (got ${JSON.stringify(value)})`);
+    } else if (value < min || value > max) {
+      problems.push(`${key}=${value} is outside [${min}, ${max}]`);
+    } else if (INTEGER_FIELDS.has(key) && !Number.isInteger(value)) {
+      problems.push(`${key} must be an integer`);
+    } else {
+      profile[key] = value;
+    }
+  });
+
+  if (problems.length === 0) {
+    if (!(profile.radiusMin <= profile.radiusBase && profile.radiusBase <= profile.radiusMax)) {
+      problems.push('radiusMin <= radiusBase <= radiusMax does not hold');
+    }
+    if (profile.hopForceMin > profile.hopForceMax) problems.push('hopForceMin is greater than hopForceMax');
+    if (profile.hopIntervalMinMs > profile.hopIntervalMaxMs) problems.push('hopIntervalMinMs is greater than hopIntervalMaxMs');
+    if (profile.recoveryVelocity >= profile.stunVelocity) problems.push('recoveryVelocity must be below stunVelocity');
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid behavior profile ${source}:\n  - ${problems.join('\n  - ')}`);
+  }
+  return profile;
+}
+
+// "maxVelocity=15,hopFrames=4" -> { maxVelocity: 15, hopFrames: 4 }
+export function parseOverrides(list: string[]): Record<string, number> {
+  const overrides: Record<string, number> = {};
+  list.forEach(item => {
+    const [key, value] = item.split('=').map(s => s.trim());
+    if (!key || value === undefined || value === '') {
+      throw new Error(`Behavior override "${item}" must look like name=value`);
+    }
+    overrides[key] = Number(value);
+  });
+  return overrides;
+}
+
+// Resolves --behavior (file profiles shadow built-ins), follows `extends`,
+// applies --behavior_set overrides and validates the result.
+export async function loadBehaviorProfile(config: Config): Promise<BehaviorProfile> {
+  const fileProfiles = await loadNamedEntries<ProfileEntry>(config.behaviorsFile, 'behavior profile');
+  const chain = resolveExtendsChain(
+    config.behavior,
+    name => fileProfiles[name] ?? BUILTIN_PROFILES[name],
+    'behavior profile',
+    [...Object.keys(BUILTIN_PROFILES), ...Object.keys(fileProfiles)]
+  );
+
+  const merged: Record<string, unknown> = {};
+  chain.forEach(({ extends: _parent, ...values }) => Object.assign(merged, values));
+  Object.assign(merged, parseOverrides(config.behaviorOverrides));
+
+  // Unset fields fall back to DEFAULT_BEHAVIOR
+  return validateBehavior(merged, `"${config.behavior}"`);
+}
@@ -0,0 +1,95 @@
+import { Config } from './config';
+import { gridTimestamp, resampleToGrid, TimeGrid } from './metrics';
+import { MarketChartData, MarketDataProvider } from './provider';
+import { summarizeReport, validateSeries } from './quality';
+
+// Benchmark-relative mode: every coin's prices are divided by a benchmark
+// before metrics are computed, so trend, leaderboard and chart all show
+// out/under-performance instead of moving together with the whole market.
+
+export const BENCHMARK_MODES = ['none', 'btc', 'eth', 'basket'] as const;
+export type BenchmarkMode = typeof BENCHMARK_MODES[number];
+
+const BENCHMARK_COINS: Record<string, string> = {
+  btc: 'bitcoin',
+  eth: 'ethereum',
+};
+
+export function benchmarkLabel(mode: string): string {
+  return mode === 'basket' ? 'Basket' : mode.toUpperCase();
+}
+
+// Linear interpolation into a sorted series, clamped at both ends.
+function priceAt(prices: [number, number][], time: number, hint: { j: number }): number {
+  while (hint.j < prices.length - 1 && prices[hint.j + 1][0] <= time) hint.j++;
+  const [t0, p0] = prices[hint.j];
+  if (time <= t0 || hint.j >= prices.length - 1) return p0;
+  const [t1, p1] = prices[hint.j + 1];
+  return p0 + (p1 - p0) * ((time - t0) / (t1 - t0));
+}
+
+// Equal-weighted basket of the given coins on the common grid, each coin
+// contributing its growth since the grid start.
+function buildBasket(charts: MarketChartData[], grid: TimeGrid): MarketChartData {
+  const resampled = charts.map(c => resampleToGrid(c, grid).prices);
+  const prices: [number, number][] = [];
+  for (let i = 0; i < grid.length; i++) {
+    const growth = resampled.reduce((acc, p) => acc + p[i] / p[0], 0) / resampled.length;
+    prices.push([gridTimestamp(grid, i), growth]);
+  }
+  return { prices };
+}
+
+export async function loadBenchmark(
+  mode: BenchmarkMode,
+  charts: Map<string, MarketChartData>,
+  grid: TimeGrid,
+  provider: MarketDataProvider,
+  config: Config
+): Promise<MarketChartData | null> {
+  if (mode === 'none') return null;
+  if (mode === 'basket') return buildBasket(Array.from(charts.values()), grid);
+
+  const coinId = BENCHMARK_COINS[mode];
+  if (!coinId) {
+    throw new Error(`Unknown benchmark "${mode}" (expected none, btc, eth or basket)`);
+  }
+
+  // Reuse the coin's series when it is already part of the video
+  const existing = charts.get(coinId);
+  if (existing) return existing;
+
+  console.log(`[Benchmark] Fetching ${coinId}...`);
+  const raw = await provider.fetchMarketChart(coinId, config.days);
+  const { data, report } = validateSeries(coinId, raw, config.quality);
+  if (!data) {
+    throw new Error(`[Benchmark] ${coinId} data unusable: ${summarizeReport(report)}`);
+  }
+  return data;
+}
+
+// Expresses a coin's prices in benchmark terms, rebased so the first point
+// keeps its original value: p_rel(t) = p(t) * b(t0) / b(t).
+export function relativeTo(data: MarketChartData, benchmark: MarketChartData): MarketChartData {
+  if (data.prices.length === 0) return data;
+
+  const hint = { j: 0 };
+  const factors = data.prices.map(([t]) => priceAt(benchmark.prices, t, hint));
+  const base = factors[0];
+  const scale = (i: number) => base / factors[i];
+
+  const result: MarketChartData = {
+    prices: data.prices.map(([t, p], i) => [t, p * scale(i)] as [number, number]),
+  };
+  if (data.candles) {
+    // Volume is a quantity of the coin itself and stays as is
+    result.candles = data.candles.map((c, i) => ({
+      ...c,
+      open: c.open * scale(i),
+      high: c.high * scale(i),
+      low: c.low * scale(i),
+      close: c.close * scale(i),
+    }));
+  }
+  return result;
+}
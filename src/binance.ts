@@ -0,0 +1,109 @@
+import axios from 'axios';
+import { config } from './config';
+import { fetchWithCache } from './cache';
+import { RequestScheduler } from './http';
+import { CoinSelection } from './universe';
+import { Candle, CoinData, MarketChartData, MarketDataProvider } from './provider';
+
+// Binance-compatible `/api/v3/klines` endpoint. Any exchange or proxy speaking
+// the same format works (including `pnpm run mock-exchange` for offline runs).
+const KLINE_LIMIT = 1000; // Max candles per request
+// Binance allows 6000 request weight per minute and a klines call with
+// limit=1000 costs 2, so this stays far below the limit.
+const KLINE_RATE = { requestsPerMinute: 600, burst: 10 };
+
+export const INTERVAL_MS: Record<string, number> = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '30m': 30 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+};
+
+// Exchanges don't rank by market cap and don't host logos, so the coin list
+// comes from another provider and only the price history comes from klines.
+export class BinanceProvider implements MarketDataProvider {
+  readonly name = 'binance';
+  readonly seriesKey = `binance_${config.klineQuote}_${config.klineInterval}`;
+  private universe: MarketDataProvider;
+  private client: RequestScheduler;
+  // coinId -> exchange base asset. Seeded with the benchmark coins, which may
+  // be requested without being part of the selected universe.
+  private symbols: Map<string, string> = new Map([['bitcoin', 'BTC'], ['ethereum', 'ETH']]);
+
+  constructor(universe: MarketDataProvider) {
+    this.universe = universe;
+    const http = axios.create({
+      baseURL: config.klineBaseUrl,
+      timeout: 30000,
+    });
+    this.client = new RequestScheduler('Binance', http, KLINE_RATE, {
+      maxRetries: config.maxRetries,
+      baseDelayMs: 500,
+      maxDelayMs: 10000,
+    });
+  }
+
+  async fetchTopCoins(selection: CoinSelection): Promise<CoinData[]> {
+    const coins = await this.universe.fetchTopCoins(selection);
+    coins.forEach(c => this.symbols.set(c.id, c.symbol.toUpperCase()));
+    return coins;
+  }
+
+  async fetchMarketChart(coinId: string, days: number): Promise<MarketChartData> {
+    const base = this.symbols.get(coinId);
+    if (!base) {
+      throw new Error(`[Binance] Unknown symbol for ${coinId}; call fetchTopCoins first`);
+    }
+    const pair = `${base}${config.klineQuote}`;
+    const interval = config.klineInterval;
+    const stepMs = INTERVAL_MS[interval];
+    if (!stepMs) {
+      throw new Error(`[Binance] Unsupported kline interval: ${interval}`);
+    }
+
+    const params = { baseUrl: config.klineBaseUrl, pair, interval, days };
+    return fetchWithCache('klines', params, async () => {
+      const endTime = Date.now();
+      let cursor = endTime - days * 24 * 60 * 60 * 1000;
+      const candles: Candle[] = [];
+
+      // Page forward until we reach the present
+      while (cursor < endTime) {
+        const response = await this.client.get<KlineRow[]>('/api/v3/klines', {
+          params: { symbol: pair, interval, startTime: cursor, endTime, limit: KLINE_LIMIT },
+        });
+        const rows = response.data;
+        if (rows.length === 0) break;
+
+        rows.forEach(row => candles.push(parseKline(row)));
+        cursor = candles[candles.length - 1].timestamp + stepMs;
+        if (rows.length < KLINE_LIMIT) break;
+      }
+
+      console.log(`[Binance] ${pair}: ${candles.length} ${interval} candles`);
+      return {
+        prices: candles.map(c => [c.timestamp, c.close] as [number, number]),
+        candles,
+      };
+    });
+  }
+}
+
+// [openTime, open, high, low, close, volume, closeTime, ...]; prices and
+// volume come as decimal strings to keep their precision
+type KlineRow = [number, string, string, string, string, string, number, ...(string | number)[]];
+
+function parseKline(row: KlineRow): Candle {
+  const [openTime, open, high, low, close, volume] = row;
+  return {
+    timestamp: Number(openTime),
+    open: Number(open),
+    high: Number(high),
+    low: Number(low),
+    close: Number(close),
+    volume: Number(volume),
+  };
+}
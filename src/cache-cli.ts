@@ -0,0 +1,75 @@
+import minimist from 'minimist';
+import { config } from './config';
+import { listEntries, purgeEntries, readEntry } from './cache';
+
+// Usage:
+//   pnpm run cache ls
+//   pnpm run cache purge [--expired] [--namespace=market_chart]
+//   pnpm run cache inspect <key>
+
+const args = minimist(process.argv.slice(2), { boolean: ['expired'] });
+
+function formatAge(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = minutes / 60;
+  if (hours < 48) return `${hours.toFixed(1)}h`;
+  return `${(hours / 24).toFixed(1)}d`;
+}
+
+async function ls() {
+  const entries = await listEntries();
+  if (entries.length === 0) {
+    console.log(`Cache is empty (${config.cacheDir})`);
+    return;
+  }
+
+  for (const e of entries) {
+    const status = e.expired ? 'expired' : 'fresh';
+    const kb = (e.sizeBytes / 1024).toFixed(1);
+    console.log(`${e.key.padEnd(32)} ${status.padEnd(8)} age=${formatAge(e.ageMs).padEnd(7)} ${kb.padStart(8)} KB  ${JSON.stringify(e.params)}`);
+  }
+  console.log(`${entries.length} entries in ${config.cacheDir}`);
+}
+
+async function purge() {
+  const removed = await purgeEntries({
+    namespace: args.namespace,
+    expiredOnly: args.expired,
+  });
+  removed.forEach(key => console.log(`Deleted: ${key}`));
+  console.log(`Purged ${removed.length} entries.`);
+}
+
+async function inspect(key?: string) {
+  if (!key) {
+    throw new Error('Usage: cache inspect <key>');
+  }
+  const entry = await readEntry(key);
+  if (!entry) {
+    throw new Error(`No cache entry named ${key}`);
+  }
+
+  const { data, ...meta } = entry;
+  console.log(JSON.stringify({ ...meta, fetchedAtIso: new Date(entry.fetchedAt).toISOString() }, null, 2));
+  console.log('data:', JSON.stringify(data, null, 2).slice(0, 2000));
+}
+
+async function cli() {
+  const [command, key] = args._.map(String);
+  switch (command) {
+    case 'ls':
+      return ls();
+    case 'purge':
+      return purge();
+    case 'inspect':
+      return inspect(key);
+    default:
+      throw new Error('Usage: cache <ls|purge|inspect <key>>');
+  }
+}
+
+cli().catch(err => {
+  console.error(err.message || err);
+  process.exit(1);
+});
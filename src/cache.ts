@@ -0,0 +1,154 @@
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import { config } from './config';
+
+// Every cached response is stored with the parameters that produced it, so the
+// file name can be derived from those parameters (content-addressed) and the
+// cache CLI can show what an entry actually contains.
+export interface CacheEntry<T = unknown> {
+  key: string;
+  namespace: string;
+  params: Record<string, unknown>;
+  fetchedAt: number; // epoch ms
+  data: T;
+}
+
+export interface CacheEntryInfo {
+  key: string;
+  namespace: string;
+  params: Record<string, unknown>;
+  fetchedAt: number;
+  ageMs: number;
+  ttlMs: number;
+  expired: boolean;
+  sizeBytes: number;
+}
+
+// JSON with sorted object keys, so { a, b } and { b, a } hash the same.
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const obj = value as Record<string, unknown>;
+    return `{${Object.keys(obj).sort().map(k => `${JSON.stringify(k)}:${stableStringify(obj[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function cacheKey(namespace: string, params: Record<string, unknown>): string {
+  const hash = crypto.createHash('sha1').update(stableStringify(params)).digest('hex').slice(0, 16);
+  return `${namespace}_${hash}`;
+}
+
+export function ttlFor(namespace: string): number {
+  const hours = config.cacheTtlHours[namespace] ?? config.cacheTtlHours.default;
+  return hours * 60 * 60 * 1000;
+}
+
+function entryPath(key: string): string {
+  return path.join(config.cacheDir, `${key}.json`);
+}
+
+export async function readEntry<T = unknown>(key: string): Promise<CacheEntry<T> | null> {
+  const cachePath = entryPath(key);
+  if (!(await fs.pathExists(cachePath))) return null;
+  try {
+    const entry = await fs.readJson(cachePath);
+    // Files written before entries carried metadata are not usable
+    if (!entry || typeof entry !== 'object' || !('fetchedAt' in entry) || !('data' in entry)) return null;
+    return entry;
+  } catch (err) {
+    console.warn(`[Cache] Unreadable entry ${key}: ${err}`);
+    return null;
+  }
+}
+
+export async function fetchWithCache<T>(
+  namespace: string,
+  params: Record<string, unknown>,
+  fetchFn: () => Promise<T>
+): Promise<T> {
+  const key = cacheKey(namespace, params);
+  const ttlMs = ttlFor(namespace);
+  const cached = await readEntry<T>(key);
+
+  if (cached && Date.now() - cached.fetchedAt < ttlMs) {
+    console.log(`[Cache] Hit for ${key}`);
+    return cached.data;
+  }
+
+  console.log(`[Cache] ${cached ? 'Expired' : 'Miss'} for ${key}, fetching...`);
+  try {
+    const data = await fetchFn();
+    const entry: CacheEntry<T> = { key, namespace, params, fetchedAt: Date.now(), data };
+    await fs.ensureDir(config.cacheDir);
+    await fs.writeJson(entryPath(key), entry);
+    return data;
+  } catch (error) {
+    // Stale-while-error: an old answer beats dropping the coin entirely
+    if (cached) {
+      const ageH = (Date.now() - cached.fetchedAt) / (60 * 60 * 1000);
+      console.warn(`[Cache] Fetch failed for ${key}, serving stale entry (${ageH.toFixed(1)}h old): ${error}`);
+      return cached.data;
+    }
+    console.error(`Error fetching ${key}:`, error);
+    throw error;
+  }
+}
+
+export async function listEntries(): Promise<CacheEntryInfo[]> {
+  if (!(await fs.pathExists(config.cacheDir))) return [];
+
+  const files = (await fs.readdir(config.cacheDir)).filter(f => f.endsWith('.json'));
+  const infos: CacheEntryInfo[] = [];
+  const now = Date.now();
+
+  for (const file of files) {
+    const key = path.basename(file, '.json');
+    const stat = await fs.stat(entryPath(key));
+    const entry = await readEntry(key);
+    if (entry) {
+      const ttlMs = ttlFor(entry.namespace);
+      infos.push({
+        key,
+        namespace: entry.namespace,
+        params: entry.params,
+        fetchedAt: entry.fetchedAt,
+        ageMs: now - entry.fetchedAt,
+        ttlMs,
+        expired: now - entry.fetchedAt >= ttlMs,
+        sizeBytes: stat.size,
+      });
+    } else {
+      // Legacy or corrupt file: always considered expired
+      infos.push({
+        key,
+        namespace: 'legacy',
+        params: {},
+        fetchedAt: stat.mtimeMs,
+        ageMs: now - stat.mtimeMs,
+        ttlMs: 0,
+        expired: true,
+        sizeBytes: stat.size,
+      });
+    }
+  }
+
+  return infos.sort((a, b) => a.key.localeCompare(b.key));
+}
+
+export async function purgeEntries(filter: { namespace?: string; expiredOnly?: boolean } = {}): Promise<string[]> {
+  const entries = await listEntries();
+  const removed: string[] = [];
+
+  for (const entry of entries) {
+    if (filter.namespace && entry.namespace !== filter.namespace) continue;
+    if (filter.expiredOnly && !entry.expired) continue;
+    await fs.remove(entryPath(entry.key));
+    removed.push(entry.key);
+  }
+
+  return removed;
+}
@@ -0,0 +1,189 @@
+import { CanvasRenderingContext2D, Image } from 'canvas';
+import Matter from 'matter-js';
+import { config } from './config';
+import { CoinBody } from './physics';
+import { Theme } from './theme';
+
+// Effects that make a coin's state readable without knowing the physics rules:
+//   glow     pulsing ring, brighter, wider and faster with volatility
+//   trails   fading copies of the coin along its path right after a hop
+//   outline  rim in the positive/negative color, thicker for a stronger trend
+//   dizzy    stars circling over a stunned coin
+// Selected with --coin_effects (all by default).
+
+export const COIN_EFFECTS = ['glow', 'trails', 'outline', 'dizzy'] as const;
+export type CoinEffect = typeof COIN_EFFECTS[number];
+
+export function resolveCoinEffects(names: string[]): Set<CoinEffect> {
+  const effects = new Set<CoinEffect>();
+  names.filter(name => name !== 'none').forEach(name => {
+    if (!COIN_EFFECTS.includes(name as CoinEffect)) {
+      throw new Error(`Unknown coin effect "${name}" (available: ${COIN_EFFECTS.join(', ')}, none)`);
+    }
+    effects.add(name as CoinEffect);
+  });
+  return effects;
+}
+
+// Per-coin state carried between frames
+interface CoinEffectState {
+  trail: Matter.Vector[]; // Recent draw positions, oldest first
+  trailIntensity: number; // 1 while hopping, fades afterwards
+  pulsePhase: number; // Radians; advanced by a volatility-dependent rate
+}
+
+// For simulation snapshots (see snapshot.ts)
+export interface CoinEffectsSnapshot {
+  coins: [string, CoinEffectState][];
+}
+
+const TRAIL_LENGTH = 6; // Frames
+const TRAIL_FADE_SECONDS = 0.4; // After the hop force stops
+const MIN_VOL = 0.05; // No glow for calm coins
+const MIN_TREND = 0.05; // No outline for flat coins
+const DIZZY_STARS = 3;
+
+export class CoinEffects {
+  private states = new Map<string, CoinEffectState>();
+
+  constructor(
+    private readonly effects: Set<CoinEffect>,
+    private readonly theme: Theme,
+    private readonly scale: number
+  ) {}
+
+  // Advances trails and pulses by one frame; call once per frame before drawing
+  update(coins: { cb: CoinBody; position: Matter.Vector }[]) {
+    const present = new Set(coins.map(({ cb }) => cb.id));
+    Array.from(this.states.keys()).filter(id => !present.has(id)).forEach(id => this.states.delete(id));
+
+    coins.forEach(({ cb, position }) => {
+      let state = this.states.get(cb.id);
+      if (!state) {
+        state = { trail: [], trailIntensity: 0, pulsePhase: 0 };
+        this.states.set(cb.id, state);
+      }
+      state.trail.push({ x: position.x, y: position.y });
+      if (state.trail.length > TRAIL_LENGTH) state.trail.shift();
+      state.trailIntensity = cb.isHopping ? 1 : Math.max(0, state.trailIntensity - 1 / (TRAIL_FADE_SECONDS * config.fps));
+      // 0.5 Hz for calm coins up to 3 Hz for the most volatile
+      state.pulsePhase = (state.pulsePhase + (2 * Math.PI * (0.5 + 2.5 * this.volatility(cb))) / config.fps) % (2 * Math.PI);
+    });
+  }
+
+  // Glow and trails, drawn before any coin so they never cover one
+  drawBehind(ctx: CanvasRenderingContext2D, cb: CoinBody, position: Matter.Vector, img?: Image) {
+    const state = this.states.get(cb.id);
+    if (!state) return;
+    if (this.effects.has('trails')) this.drawTrail(ctx, cb, state, img);
+    if (this.effects.has('glow')) this.drawGlow(ctx, cb, position, state);
+  }
+
+  // Outline and dizzy stars, drawn after all coins
+  drawFront(ctx: CanvasRenderingContext2D, cb: CoinBody, position: Matter.Vector, frameIndex: number) {
+    if (this.effects.has('outline')) this.drawOutline(ctx, cb, position);
+    if (this.effects.has('dizzy') && cb.isStunned) this.drawDizzy(ctx, cb, position, frameIndex);
+  }
+
+  snapshot(): CoinEffectsSnapshot {
+    return {
+      coins: Array.from(this.states, ([id, s]) => [id, { ...s, trail: s.trail.map(p => ({ x: p.x, y: p.y })) }]),
+    };
+  }
+
+  restore(snapshot: CoinEffectsSnapshot) {
+    this.states = new Map(snapshot.coins.map(([id, s]) => [id, { ...s, trail: s.trail.map(p => ({ x: p.x, y: p.y })) }]));
+  }
+
+  private volatility(cb: CoinBody): number {
+    return Math.max(0, Math.min(1, cb.smoothedVol));
+  }
+
+  // Shrinking, fading copies of the coin at its last positions
+  private drawTrail(ctx: CanvasRenderingContext2D, cb: CoinBody, state: CoinEffectState, img?: Image) {
+    if (state.trailIntensity <= 0) return;
+    const ghosts = state.trail.slice(0, -1); // The last one is the coin itself
+    ghosts.forEach((p, i) => {
+      const age = (i + 1) / (ghosts.length + 1); // Older copies are fainter and smaller
+      const r = cb.radius * (0.6 + 0.4 * age);
+      ctx.save();
+      ctx.globalAlpha = cb.opacity * state.trailIntensity * 0.35 * age;
+      ctx.beginPath();
+      ctx.arc(p.x, p.y, r, 0, Math.PI * 2);
+      if (img) {
+        ctx.clip();
+        ctx.drawImage(img, p.x - r, p.y - r, r * 2, r * 2);
+      } else {
+        ctx.fillStyle = this.theme.colors.coinFallback;
+        ctx.fill();
+      }
+      ctx.restore();
+    });
+  }
+
+  private drawGlow(ctx: CanvasRenderingContext2D, cb: CoinBody, position: Matter.Vector, state: CoinEffectState) {
+    const vol = this.volatility(cb);
+    if (vol < MIN_VOL) return;
+    const pulse = 0.5 + 0.5 * Math.sin(state.pulsePhase);
+    const { scale } = this;
+
+    ctx.save();
+    ctx.globalAlpha = cb.opacity * (0.3 + 0.5 * vol) * (0.6 + 0.4 * pulse);
+    ctx.shadowColor = this.theme.colors.coinGlow;
+    ctx.shadowBlur = 25 * vol * scale;
+    ctx.strokeStyle = this.theme.colors.coinGlow;
+    ctx.lineWidth = (2 + 4 * vol) * scale;
+    ctx.beginPath();
+    ctx.arc(position.x, position.y, cb.radius + (3 + 10 * vol * pulse) * scale, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  // Inside the rim so it doesn't change the coin's apparent size
+  private drawOutline(ctx: CanvasRenderingContext2D, cb: CoinBody, position: Matter.Vector) {
+    const strength = Math.min(1, Math.abs(cb.trend));
+    if (strength < MIN_TREND) return;
+    const lineWidth = (1.5 + 4.5 * strength) * this.scale;
+
+    ctx.save();
+    ctx.globalAlpha = cb.opacity * Math.min(1, 0.4 + strength);
+    ctx.strokeStyle = cb.trend > 0 ? this.theme.colors.positive : this.theme.colors.negative;
+    ctx.lineWidth = lineWidth;
+    ctx.beginPath();
+    ctx.arc(position.x, position.y, Math.max(1, cb.radius - lineWidth / 2), 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  // Stars orbiting on a flat ellipse over the coin; the ones behind are smaller and dimmer
+  private drawDizzy(ctx: CanvasRenderingContext2D, cb: CoinBody, position: Matter.Vector, frameIndex: number) {
+    const { scale } = this;
+    const rx = Math.max(cb.radius * 0.6, 16 * scale);
+    const ry = rx * 0.3;
+    const cx = position.x;
+    const cy = position.y - cb.radius - 10 * scale;
+    const spin = (frameIndex / config.fps) * 2 * Math.PI * 1.2;
+
+    ctx.save();
+    ctx.fillStyle = this.theme.colors.dizzy;
+    for (let k = 0; k < DIZZY_STARS; k++) {
+      const angle = spin + (k * 2 * Math.PI) / DIZZY_STARS;
+      const depth = 0.5 + 0.5 * Math.sin(angle); // 0 = behind, 1 = in front
+      ctx.globalAlpha = cb.opacity * (0.5 + 0.5 * depth);
+      starPath(ctx, cx + Math.cos(angle) * rx, cy + Math.sin(angle) * ry, (5 + 3 * depth) * scale);
+      ctx.fill();
+    }
+    ctx.restore();
+  }
+}
+
+function starPath(ctx: CanvasRenderingContext2D, x: number, y: number, r: number) {
+  ctx.beginPath();
+  for (let i = 0; i < 10; i++) {
+    const angle = -Math.PI / 2 + (i * Math.PI) / 5;
+    const radius = i % 2 === 0 ? r : r * 0.45;
+    if (i === 0) ctx.moveTo(x + Math.cos(angle) * radius, y + Math.sin(angle) * radius);
+    else ctx.lineTo(x + Math.cos(angle) * radius, y + Math.sin(angle) * radius);
+  }
+  ctx.closePath();
+}
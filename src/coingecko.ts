@@ -1,107 +1,107 @@
 import axios from 'axios';
-import fs from 'fs-extra';
-import path from 'path';
 import { config } from './config';
+import { fetchWithCache } from './cache';
+import { COINGECKO_PLANS, RequestScheduler } from './http';
+import { CoinSelection, describeSelection, filterExcluded } from './universe';
+import { CoinData, MarketChartData, MarketDataProvider } from './provider';
 
-export interface CoinData {
-  id: string;
-  symbol: string;
-  name: string;
-  image: string;
+// CoinGecko picks the spacing of market_chart points from `days`
+export function chartGranularity(days: number): string {
+  if (days <= 1) return '5m';
+  return days <= 90 ? 'hourly' : 'daily';
 }
 
-export interface MarketChartData {
-  prices: [number, number][]; // [timestamp, price]
-}
-
-const CACHE_TTL_MS = 12 * 60 * 60 * 1000; // 12 hours
+export class CoinGeckoProvider implements MarketDataProvider {
+  readonly name = 'coingecko';
+  readonly seriesKey = `coingecko_${config.vsCurrency}`;
+  private scheduler: RequestScheduler;
 
-async function fetchWithCache<T>(
-  key: string,
-  fetchFn: () => Promise<T>
-): Promise<T> {
-  const cachePath = path.join(config.cacheDir, `${key}.json`);
+  constructor() {
+    const rateLimit = COINGECKO_PLANS[config.plan];
+    if (!rateLimit) {
+      throw new Error(`Unknown CoinGecko plan: ${config.plan} (expected ${Object.keys(COINGECKO_PLANS).join(', ')})`);
+    }
 
-  if (await fs.pathExists(cachePath)) {
-    const stat = await fs.stat(cachePath);
-    const age = Date.now() - stat.mtimeMs;
-    // Disable cache for debugging if needed, but keeping it is fine if we use new keys.
-    if (age < CACHE_TTL_MS) {
-      console.log(`[Cache] Hit for ${key}`);
-      return fs.readJson(cachePath);
+    // Paid plans live on a separate host and use a different key header
+    const isDemoPlan = config.plan === 'demo';
+    const apiClient = axios.create({
+      baseURL: isDemoPlan ? 'https://api.coingecko.com/api/v3' : 'https://pro-api.coingecko.com/api/v3',
+      timeout: 30000,
+    });
+    if (config.apiKey) {
+      apiClient.defaults.headers.common[isDemoPlan ? 'x-cg-demo-api-key' : 'x-cg-pro-api-key'] = config.apiKey;
     }
-  }
 
-  console.log(`[Cache] Miss for ${key}, fetching...`);
-  try {
-    const data = await fetchFn();
-    await fs.writeJson(cachePath, data);
-    return data;
-  } catch (error) {
-    console.error(`Error fetching ${key}:`, error);
-    throw error;
+    this.scheduler = new RequestScheduler('Coingecko', apiClient, rateLimit, {
+      maxRetries: config.maxRetries,
+      baseDelayMs: 1000,
+      maxDelayMs: 30000,
+    });
   }
-}
-
-const apiClient = axios.create({
-  baseURL: 'https://api.coingecko.com/api/v3',
-  timeout: 30000,
-});
 
-if (config.apiKey) {
-    apiClient.defaults.headers.common['x-cg-demo-api-key'] = config.apiKey;
-}
+  granularity(days: number): string {
+    return chartGranularity(days);
+  }
 
-export async function fetchTopCoins(): Promise<CoinData[]> {
-  return fetchWithCache('markets_usd_top10', async () => {
-    // We might need to fetch more than 10 if we want to filter stables.
-    // Fetch 50 to be safe.
-    const perPage = config.excludeStables ? 50 : config.coins;
+  async fetchTopCoins(selection: CoinSelection): Promise<CoinData[]> {
+    const params = {
+      vsCurrency: config.vsCurrency,
+      selection,
+    };
+    return fetchWithCache('markets', params, async () => {
+      // Exclusions are applied client-side, so over-fetch to still end up with `limit` coins.
+      const excluding = !selection.ids && (selection.excludeStables || selection.excludeWrapped);
+      const perPage = Math.min(250, excluding ? selection.limit + 40 : selection.limit);
     
-    console.log(`[Coingecko] Fetching markets with key: ${config.apiKey.substring(0, 5)}...`);
-    console.log(`[Coingecko] Headers:`, apiClient.defaults.headers.common);
+      console.log(`[Coingecko] Fetching markets (${describeSelection(selection)}) with key: ${config.apiKey.substring(0, 5)}...`);
 
-    const response = await apiClient.get('/coins/markets', {
-      params: {
-        vs_currency: config.vsCurrency,
-        order: 'market_cap_desc',
-        per_page: perPage,
-        page: 1,
-        sparkline: false,
-      },
-    });
+      const response = await this.scheduler.get('/coins/markets', {
+        params: {
+          vs_currency: config.vsCurrency,
+          order: 'market_cap_desc',
+          per_page: perPage,
+          page: 1,
+          sparkline: false,
+          ids: selection.ids?.join(','),
+          category: selection.category,
+        },
+      });
 
-    let coins = response.data;
+      let coins: any[] = filterExcluded(response.data, selection);
 
-    if (config.excludeStables) {
-      const stablecoins = ['usdt', 'usdc', 'dai', 'fdusd', 'tusd', 'usdd', 'usde', 'pyusd']; // Basic list
-      // Better: filter by known stable IDs or symbols? CoinGecko doesn't have "is_stable" in markets endpoint easily without generic category filter.
-      // We will filter by symbol/id simply.
-      coins = coins.filter((c: any) => !stablecoins.includes(c.symbol.toLowerCase()));
-    }
+      if (selection.ids) {
+        // Keep the order the user asked for rather than market cap order
+        const byId = new Map(coins.map(c => [c.id, c]));
+        const missing = selection.ids.filter(id => !byId.has(id));
+        if (missing.length > 0) {
+          console.warn(`[Coingecko] Unknown coin ids: ${missing.join(', ')}`);
+        }
+        coins = selection.ids.filter(id => byId.has(id)).map(id => byId.get(id));
+      }
     
-    const result = coins.slice(0, config.coins).map((c: any) => ({
-      id: c.id,
-      symbol: c.symbol,
-      name: c.name,
-      image: c.image,
-    }));
-    console.log(`[Coingecko] Top coins: ${result.map((c: any) => c.id).join(', ')}`);
-    return result;
-  });
-}
+      const result = coins.slice(0, selection.limit).map((c: any) => ({
+        id: c.id,
+        symbol: c.symbol,
+        name: c.name,
+        image: c.image,
+        circulatingSupply: c.circulating_supply ?? undefined,
+      }));
+      console.log(`[Coingecko] Top coins: ${result.map((c: any) => c.id).join(', ')}`);
+      return result;
+    });
+  }
 
-export async function fetchMarketChart(
-  coinId: string
-): Promise<MarketChartData> {
-  return fetchWithCache(`market_chart_${coinId}_${config.days}d`, async () => {
-    const response = await apiClient.get(`/coins/${coinId}/market_chart`, {
-      params: {
-        vs_currency: config.vsCurrency,
-        days: config.days,
-        // interval: 'hourly', // Removed to avoid Enterprise restriction error (401)
-      },
+  async fetchMarketChart(coinId: string, days: number): Promise<MarketChartData> {
+    const params = { coinId, vsCurrency: config.vsCurrency, days };
+    return fetchWithCache('market_chart', params, async () => {
+      const response = await this.scheduler.get(`/coins/${coinId}/market_chart`, {
+        params: {
+          vs_currency: config.vsCurrency,
+          days,
+          // interval: 'hourly', // Removed to avoid Enterprise restriction error (401)
+        },
+      });
+      return { prices: response.data.prices };
     });
-    return { prices: response.data.prices };
-  });
+  }
 }
@@ -1,6 +1,10 @@
 import dotenv from 'dotenv';
 import minimist from 'minimist';
 import path from 'path';
+import { parseSeed } from './random';
+import { BENCHMARK_MODES, BenchmarkMode } from './benchmark';
+import { listNormalizationStrategies } from './normalization';
+import { FILL_STRATEGIES, FillStrategy } from './quality';
 
 dotenv.config();
 
@@ -17,10 +21,86 @@ export interface Config {
   excludeStables: boolean;
   cacheDir: string;
   outputDir: string;
+  provider: string; // 'coingecko' | 'replay' | 'binance'
+  replayDir: string;
+  universeProvider: string; // Coin list source for kline providers
+  klineBaseUrl: string;
+  klineInterval: string;
+  klineQuote: string;
+  cacheTtlHours: Record<string, number>; // Per cache namespace, plus 'default'
+  plan: string; // CoinGecko plan tier: 'demo' | 'analyst' | 'lite' | 'pro'
+  concurrency: number; // Max price-history requests in flight
+  maxRetries: number;
+  history: boolean; // Accumulate price history locally and fetch only new points
+  historyDir: string;
+  historyMinFetchDays: number;
+  coinsList: string[]; // Explicit coin ids; overrides watchlist/category/top N
+  watchlist: string;
+  watchlistsFile: string;
+  category: string;
+  excludeWrapped: boolean; // Wrapped/staked derivatives (WBTC, stETH, ...)
+  gridStepMinutes: number; // Spacing of the common time grid all coins are resampled onto
+  indicators: string[]; // Extra rolling indicators (see src/indicators.ts)
+  coinEffects: string[]; // Coin sprite effects (see coin-effects.ts)
+  benchmark: BenchmarkMode; // Express every coin relative to this
+  physicsHz: number; // Fixed physics step rate, independent of --fps
+  seed: number; // Drives every random choice in the simulation (see random.ts)
+  behavior: string; // Behavior profile name (see behavior.ts)
+  behaviorsFile: string;
+  behaviorOverrides: string[]; // name=value pairs applied on top of the profile
+  theme: string; // Visual theme (see theme.ts)
+  themesFile: string;
+  locale: string; // On-screen language (see i18n.ts)
+  widgets: string; // Widget layout (see widget-layout.ts)
+  widgetsFile: string;
+  layout: string; // World layout: square, circle, tall, split (see arena.ts)
+  gravity: number; // 0 = zero-g; otherwise trend drives buoyancy
+  correlationWindowHours: number;
+  correlationStrength: number; // Multiplier for attraction/repulsion between coins (0 = off)
+  correlationThreshold: number; // |correlation| below this is ignored
+  normalization: {
+    strategy: string; // See src/normalization.ts
+    windowHours: number;
+    trendScale: number;
+    volScale: number;
+  };
+  quality: {
+    fill: FillStrategy;
+    maxGapHours: number;
+    maxMissingRatio: number;
+    outlierZ: number;
+    minPoints: number;
+  };
+  events: {
+    enabled: boolean;
+    movePct: number; // Breakout/crash threshold, percent over moveHours
+    moveHours: number;
+    highLookbackDays: number;
+    cooldownHours: number; // Data hours before the same coin can trigger the same event again
+  };
+  snapshotEverySec: number; // Write a simulation snapshot this often (0 = never)
+  snapshotDir: string;
+  frames: { start: number; end: number } | null; // Render only this range (inclusive), see snapshot.ts
+  lifecycle: {
+    rerank: boolean; // Show the top N by market cap over time instead of a fixed set
+    rerankPool: number; // Coins fetched as candidates for the top N
+    rerankHours: number;
+    exitAnimation: 'fade' | 'eject';
+  };
 }
 
 const args = minimist(process.argv.slice(2));
 
+// "900-1049" (inclusive) or "900-" (to the end)
+function parseFrameRange(value: unknown): { start: number; end: number } | null {
+  if (value === undefined || value === null || value === '') return null;
+  const match = /^(\d+)-(\d*)$/.exec(String(value));
+  if (!match || (match[2] !== '' && Number(match[2]) < Number(match[1]))) {
+    throw new Error(`--frames must look like 900-1049 or 900- (got "${value}")`);
+  }
+  return { start: Number(match[1]), end: match[2] === '' ? Infinity : Number(match[2]) };
+}
+
 export const config: Config = {
   apiKey: process.env.COINGECKO_API_KEY || '',
   coins: args.coins || 10,
@@ -38,8 +118,110 @@ export const config: Config = {
   // We'll trust the user to pass --exclude_stables=true or just --exclude_stables
   cacheDir: path.resolve(process.cwd(), 'cache'),
   outputDir: path.resolve(process.cwd(), 'output'),
+  provider: args.provider || 'coingecko',
+  replayDir: path.resolve(process.cwd(), args.replay_dir || 'replay'),
+  universeProvider: args.universe_provider || 'coingecko',
+  klineBaseUrl: args.kline_base_url || 'https://api.binance.com',
+  klineInterval: args.kline_interval || '1h',
+  klineQuote: (args.kline_quote || 'USDT').toUpperCase(),
+  cacheTtlHours: {
+    default: 12,
+    markets: args.cache_ttl_markets ?? 12,
+    market_chart: args.cache_ttl_market_chart ?? 12,
+    klines: args.cache_ttl_klines ?? 12,
+  },
+  plan: args.plan || process.env.COINGECKO_PLAN || 'demo',
+  concurrency: args.concurrency || 4,
+  maxRetries: args.max_retries ?? 4,
+  history: args.history === true || args.history === 'true',
+  historyDir: path.resolve(process.cwd(), args.history_dir || 'history'),
+  historyMinFetchDays: args.history_min_fetch_days || 2,
+  coinsList: args.coins_list
+    ? String(args.coins_list).split(',').map(id => id.trim().toLowerCase()).filter(id => id.length > 0)
+    : [],
+  watchlist: args.watchlist || '',
+  watchlistsFile: path.resolve(process.cwd(), args.watchlists_file || 'watchlists.json'),
+  category: args.category || '',
+  excludeWrapped: args.exclude_wrapped === true || args.exclude_wrapped === 'true',
+  gridStepMinutes: args.grid_step_minutes || 60,
+  benchmark: args.benchmark || 'none',
+  physicsHz: args.physics_hz || 60,
+  seed: parseSeed(args.seed),
+  behavior: args.behavior || 'default',
+  behaviorsFile: path.resolve(process.cwd(), args.behaviors_file || 'behaviors.yaml'),
+  behaviorOverrides: args.behavior_set ? String(args.behavior_set).split(',') : [],
+  theme: args.theme || 'default',
+  themesFile: path.resolve(process.cwd(), args.themes_file || 'themes.yaml'),
+  locale: args.locale || 'en',
+  widgets: args.widgets || 'default',
+  widgetsFile: path.resolve(process.cwd(), args.widgets_file || 'widgets.yaml'),
+  layout: args.layout || 'square',
+  gravity: args.gravity ?? 0,
+  correlationWindowHours: args.correlation_window_hours || 72,
+  correlationStrength: args.correlation_strength ?? 1,
+  correlationThreshold: args.correlation_threshold ?? 0.3,
+  normalization: {
+    strategy: args.normalization || 'global-percentile',
+    windowHours: args.normalization_window_hours || 7 * 24,
+    trendScale: args.trend_scale || 0.002,
+    volScale: args.vol_scale || 0.01,
+  },
+  indicators: String(args.indicators ?? 'rsi,drawdown,momentum,sharpe,volume_z')
+    .split(',').map(name => name.trim()).filter(name => name.length > 0),
+  coinEffects: String(args.coin_effects ?? 'glow,trails,outline,dizzy')
+    .split(',').map(name => name.trim()).filter(name => name.length > 0),
+  quality: {
+    fill: args.fill || 'linear',
+    maxGapHours: args.max_gap_hours || 12,
+    maxMissingRatio: args.max_missing_ratio ?? 0.2,
+    outlierZ: args.outlier_z || 10,
+    minPoints: args.min_points || 24,
+  },
+  events: {
+    enabled: args.events !== 'false' && args.events !== false,
+    movePct: args.event_move_pct || 5,
+    moveHours: args.event_move_hours || 1,
+    highLookbackDays: args.event_high_days || 30,
+    cooldownHours: args.event_cooldown_hours ?? 48,
+  },
+  snapshotEverySec: args.snapshot_every ?? 5,
+  snapshotDir: path.resolve(process.cwd(), args.snapshot_dir || 'output/snapshots'),
+  frames: parseFrameRange(args.frames),
+  lifecycle: {
+    rerank: args.rerank === true || args.rerank === 'true',
+    rerankPool: args.rerank_pool || 2 * (args.coins || 10),
+    rerankHours: args.rerank_hours || 24,
+    exitAnimation: args.exit_animation || 'fade',
+  },
 };
 
-if (!config.apiKey) {
+const usesCoinGecko = config.provider === 'coingecko' || (config.provider === 'binance' && config.universeProvider === 'coingecko');
+if (!config.apiKey && usesCoinGecko) {
   console.warn('WARNING: COINGECKO_API_KEY not found in .env. API calls may fail or be rate-limited.');
 }
+
+// Flag values the types can't express, checked at startup before anything is
+// fetched. Throws one error listing every problem.
+export function validateConfig(config: Config) {
+  const problems: string[] = [];
+
+  const { correlationThreshold } = config;
+  if (typeof correlationThreshold !== 'number' || !(correlationThreshold >= 0 && correlationThreshold < 1)) {
+    problems.push(`--correlation_threshold must be in [0, 1) (got ${correlationThreshold})`);
+  }
+
+  // Choices from a fixed list; otherwise a typo would only surface after the
+  // data is fetched, or quietly behave like another mode
+  const choices: [string, string, readonly string[]][] = [
+    ['--fill', config.quality.fill, FILL_STRATEGIES],
+    ['--benchmark', config.benchmark, BENCHMARK_MODES],
+    ['--normalization', config.normalization.strategy, listNormalizationStrategies().map(s => s.name)],
+  ];
+  choices.forEach(([flag, value, allowed]) => {
+    if (!allowed.includes(value)) problems.push(`${flag} must be one of ${allowed.join(', ')} (got "${value}")`);
+  });
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid options:\n  - ${problems.join('\n  - ')}`);
+  }
+}
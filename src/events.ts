@@ -0,0 +1,179 @@
+import { MetricSeries, TimeGrid } from './metrics';
+import { PhysicsWorld } from './physics';
+
+// Notable moments, detected while the video plays: the renderer turns them into
+// callouts, the audio mixer into a chime, and main() writes them to
+// output/events.json so titles/descriptions can mention them.
+
+export type MarketEventType = 'leader-change' | 'breakout' | 'crash' | 'new-high' | 'stun';
+
+export interface MarketEvent {
+  type: MarketEventType;
+  coinId: string;
+  frame: number;
+  time: number; // Data time (ms)
+  value: number; // Move as a fraction for breakout/crash/new-high, window gain for leader-change, speed for stun
+  previousCoinId?: string; // leader-change only
+}
+
+export interface EventOptions {
+  enabled: boolean;
+  movePct: number; // |return| over moveHours that counts as a breakout/crash
+  moveHours: number;
+  highLookbackDays: number; // "New N-day high"
+  cooldownHours: number; // Per coin and type, in data time
+  windowHours: number; // Gain window for the leader, same as the leaderboard
+}
+
+// Detector state for simulation snapshots (see snapshot.ts)
+export interface EventDetectorSnapshot {
+  nextIndex: number;
+  leader: string | null;
+  challenger: { id: string; since: number } | null;
+  lastFired: [string, number][];
+  stunned: string[];
+  history: MarketEvent[];
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// A challenger must stay on top this long before it counts as the new leader
+const LEADER_HOLD_HOURS = 6;
+// Stuns only make the news when volatility (normalized, 0..1) is what caused them
+const STUN_MIN_VOLATILITY = 0.7;
+// Any two events of the same type are at least cooldownHours / this apart
+const TYPE_COOLDOWN_DIVISOR = 4;
+
+export class EventDetector {
+  private ids: string[];
+  private nextIndex = 0;
+  private leader: string | null = null;
+  private challenger: { id: string; since: number } | null = null;
+  private lastFired = new Map<string, number>(); // `${type}:${coinId}` -> data time
+  private stunned = new Set<string>();
+  readonly history: MarketEvent[] = [];
+
+  constructor(
+    private coinMetrics: Map<string, MetricSeries[]>,
+    private grid: TimeGrid,
+    private options: EventOptions,
+    // Coins that are off screen at a given data time don't make the news (see lifecycle.ts)
+    private isActive: (coinId: string, time: number) => boolean = () => true
+  ) {
+    this.ids = Array.from(coinMetrics.keys());
+  }
+
+  snapshot(): EventDetectorSnapshot {
+    return {
+      nextIndex: this.nextIndex,
+      leader: this.leader,
+      challenger: this.challenger,
+      lastFired: Array.from(this.lastFired.entries()),
+      stunned: Array.from(this.stunned),
+      history: [...this.history],
+    };
+  }
+
+  restore(snapshot: EventDetectorSnapshot) {
+    this.nextIndex = snapshot.nextIndex;
+    this.leader = snapshot.leader;
+    this.challenger = snapshot.challenger;
+    this.lastFired = new Map(snapshot.lastFired);
+    this.stunned = new Set(snapshot.stunned);
+    this.history.splice(0, this.history.length, ...snapshot.history);
+  }
+
+  private steps(hours: number): number {
+    return Math.max(1, Math.round((hours * HOUR_MS) / this.grid.stepMs));
+  }
+
+  // Returns the events that happened since the previous call
+  detect(frame: number, dataTime: number, world: PhysicsWorld): MarketEvent[] {
+    if (!this.options.enabled) return [];
+    const events: MarketEvent[] = [];
+    // Cooldowns per coin and type, and per type, keep a choppy day from flooding the screen
+    const cooldownMs = this.options.cooldownHours * HOUR_MS;
+    const emit = (event: Omit<MarketEvent, 'frame'>) => {
+      const coinKey = `${event.type}:${event.coinId}`;
+      const lastCoin = this.lastFired.get(coinKey);
+      const lastType = this.lastFired.get(event.type);
+      if (lastCoin !== undefined && event.time - lastCoin < cooldownMs) return;
+      if (lastType !== undefined && event.time - lastType < cooldownMs / TYPE_COOLDOWN_DIVISOR) return;
+      this.lastFired.set(coinKey, event.time);
+      this.lastFired.set(event.type, event.time);
+      events.push({ ...event, frame });
+    };
+
+    // 1. Market data: every grid point passed since the last frame
+    const pos = Math.min(this.grid.length - 1, Math.floor((dataTime - this.grid.start) / this.grid.stepMs));
+    for (; this.nextIndex <= pos; this.nextIndex++) {
+      this.scanGridPoint(this.nextIndex, emit);
+    }
+
+    // 2. Physics: volatile coins that just got knocked into a stun
+    world.coinBodies.forEach(cb => {
+      if (cb.phase === 'exiting') return;
+      const volatility = this.coinMetrics.get(cb.id)?.[Math.max(0, pos)]?.volatility ?? 0;
+      if (cb.isStunned && !this.stunned.has(cb.id) && volatility >= STUN_MIN_VOLATILITY) {
+        emit({ type: 'stun', coinId: cb.id, time: dataTime, value: Math.hypot(cb.body.velocity.x, cb.body.velocity.y) });
+      }
+      if (cb.isStunned) this.stunned.add(cb.id);
+      else this.stunned.delete(cb.id);
+    });
+
+    this.history.push(...events);
+    return events;
+  }
+
+  private scanGridPoint(i: number, emit: (event: Omit<MarketEvent, 'frame'>) => void) {
+    const time = this.grid.start + i * this.grid.stepMs;
+    const moveSteps = this.steps(this.options.moveHours);
+    const highSteps = this.steps(this.options.highLookbackDays * 24);
+    const windowSteps = this.steps(this.options.windowHours);
+
+    let best: { id: string; gain: number } | null = null;
+
+    for (const id of this.ids) {
+      if (!this.isActive(id, time)) continue;
+      const series = this.coinMetrics.get(id)!;
+      const price = series[i]?.price;
+      if (!price) continue;
+
+      // Breakout / crash
+      if (i >= moveSteps) {
+        const move = price / series[i - moveSteps].price - 1;
+        if (move >= this.options.movePct / 100) emit({ type: 'breakout', coinId: id, time, value: move });
+        else if (move <= -this.options.movePct / 100) emit({ type: 'crash', coinId: id, time, value: move });
+      }
+
+      // New high over the lookback (or all data so far, when the fetch is shorter).
+      // Skipped during the first window, otherwise the opening hours would be all highs.
+      if (i >= windowSteps) {
+        let high = 0;
+        for (let j = Math.max(0, i - highSteps); j < i; j++) high = Math.max(high, series[j].price);
+        if (price > high) emit({ type: 'new-high', coinId: id, time, value: price / high - 1 });
+      }
+
+      // Leader over the rolling window, once a full window exists
+      if (i >= windowSteps) {
+        const gain = price / series[i - windowSteps].price - 1;
+        if (!best || gain > best.gain) best = { id, gain };
+      }
+    }
+
+    if (!best) return;
+    if (this.leader === null) {
+      // The first leader is the starting state, not an event
+      this.leader = best.id;
+    } else if (best.id === this.leader) {
+      this.challenger = null;
+    } else {
+      if (this.challenger?.id !== best.id) this.challenger = { id: best.id, since: time };
+      if (time - this.challenger.since >= LEADER_HOLD_HOURS * HOUR_MS) {
+        emit({ type: 'leader-change', coinId: best.id, time, value: best.gain, previousCoinId: this.leader });
+        this.leader = best.id;
+        this.challenger = null;
+      }
+    }
+  }
+}
@@ -0,0 +1,147 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { Candle, CoinData, MarketChartData, MarketDataProvider } from './provider';
+import { CoinSelection } from './universe';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type StoredPoint = [number, number] | Candle;
+
+function pointTimestamp(p: StoredPoint): number {
+  return Array.isArray(p) ? p[0] : p.timestamp;
+}
+
+// Persistent local time-series store: one append-only JSON-lines file per
+// coin and series kind (see MarketDataProvider.seriesKey). Points are only
+// ever appended; duplicates by timestamp are resolved on read (last write
+// wins), so the files double as an archive of everything a video was built from.
+export class HistoryStore {
+  private dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  private filePath(seriesKey: string, coinId: string): string {
+    return path.join(this.dir, seriesKey, `${coinId}.jsonl`);
+  }
+
+  private async load(seriesKey: string, coinId: string): Promise<StoredPoint[]> {
+    const file = this.filePath(seriesKey, coinId);
+    if (!(await fs.pathExists(file))) return [];
+
+    const byTimestamp = new Map<number, StoredPoint>();
+    const text = await fs.readFile(file, 'utf8');
+    text.split('\n').forEach((line, i) => {
+      if (!line.trim()) return;
+      try {
+        const point: StoredPoint = JSON.parse(line);
+        byTimestamp.set(pointTimestamp(point), point);
+      } catch {
+        // A torn final line from an interrupted write; the rest of the file is still good
+        console.warn(`[History] Skipping unreadable line ${i + 1} in ${file}`);
+      }
+    });
+
+    return Array.from(byTimestamp.values()).sort((a, b) => pointTimestamp(a) - pointTimestamp(b));
+  }
+
+  async range(seriesKey: string, coinId: string): Promise<{ first: number; last: number } | null> {
+    const points = await this.load(seriesKey, coinId);
+    if (points.length === 0) return null;
+    return { first: pointTimestamp(points[0]), last: pointTimestamp(points[points.length - 1]) };
+  }
+
+  // Appends points that are new or changed. Returns how many were written.
+  async merge(seriesKey: string, coinId: string, data: MarketChartData): Promise<number> {
+    const existing = new Map(
+      (await this.load(seriesKey, coinId)).map(p => [pointTimestamp(p), JSON.stringify(p)])
+    );
+    const incoming: StoredPoint[] = data.candles ?? data.prices;
+
+    const lines = incoming
+      .map(p => JSON.stringify(p))
+      .filter((line, i) => existing.get(pointTimestamp(incoming[i])) !== line);
+
+    if (lines.length > 0) {
+      const file = this.filePath(seriesKey, coinId);
+      await fs.ensureDir(path.dirname(file));
+      await fs.appendFile(file, lines.join('\n') + '\n');
+    }
+    return lines.length;
+  }
+
+  async read(seriesKey: string, coinId: string, from: number, to: number): Promise<MarketChartData> {
+    const points = (await this.load(seriesKey, coinId)).filter(p => {
+      const ts = pointTimestamp(p);
+      return ts >= from && ts <= to;
+    });
+
+    if (points.length > 0 && points.every(p => !Array.isArray(p))) {
+      const candles = points as Candle[];
+      return {
+        prices: candles.map(c => [c.timestamp, c.close] as [number, number]),
+        candles,
+      };
+    }
+    return {
+      prices: points.map(p => (Array.isArray(p) ? p : [p.timestamp, p.close]) as [number, number]),
+    };
+  }
+}
+
+// Serves price history from the store and only asks the wrapped provider for
+// what is missing: the full window on first use, afterwards just the days
+// since the last stored point.
+export class HistoryProvider implements MarketDataProvider {
+  readonly name: string;
+  readonly seriesKey: string;
+  private inner: MarketDataProvider;
+  private store: HistoryStore;
+  private minFetchDays: number;
+
+  constructor(inner: MarketDataProvider, store: HistoryStore, minFetchDays: number) {
+    this.inner = inner;
+    this.store = store;
+    this.minFetchDays = minFetchDays;
+    this.name = `${inner.name}+history`;
+    this.seriesKey = inner.seriesKey;
+  }
+
+  fetchTopCoins(selection: CoinSelection): Promise<CoinData[]> {
+    return this.inner.fetchTopCoins(selection);
+  }
+
+  async fetchMarketChart(coinId: string, days: number): Promise<MarketChartData> {
+    const now = Date.now();
+    const from = now - days * DAY_MS;
+    // Windows the source samples differently are stored apart (hourly and daily
+    // points in one file would make the spacing depend on the fetch history)
+    const granularity = this.inner.granularity?.(days);
+    const seriesKey = granularity ? `${this.seriesKey}_${granularity}` : this.seriesKey;
+    const stored = await this.store.range(seriesKey, coinId);
+
+    // Stored history must reach back to the window start, otherwise backfill the
+    // full window. Allow a day of slack: the first point of a fetched window lands
+    // on the source's own grid (up to one daily candle after `from`).
+    let fetchDays = days;
+    if (stored && stored.first <= from + DAY_MS) {
+      const missingDays = Math.ceil((now - stored.last) / DAY_MS);
+      fetchDays = Math.min(days, Math.max(this.minFetchDays, missingDays));
+      // A shorter fetch must come back at the stored spacing; if the source
+      // would sample it differently, catch up with the full window instead
+      if (this.inner.granularity?.(fetchDays) !== granularity) fetchDays = days;
+    }
+
+    try {
+      const fresh = await this.inner.fetchMarketChart(coinId, fetchDays);
+      const added = await this.store.merge(seriesKey, coinId, fresh);
+      console.log(`[History] ${coinId}: fetched ${fetchDays}d, ${added} new points stored`);
+    } catch (err) {
+      if (!stored) throw err;
+      console.warn(`[History] ${coinId}: fetch failed, using stored history up to ${new Date(stored.last).toISOString()}: ${err}`);
+    }
+
+    return this.store.read(seriesKey, coinId, from, now);
+  }
+}
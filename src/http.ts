@@ -0,0 +1,154 @@
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+
+export interface RateLimit {
+  requestsPerMinute: number;
+  burst: number; // Bucket capacity: requests allowed back-to-back after idling
+}
+
+// Published CoinGecko limits per plan. The bucket is kept slightly under the
+// advertised rate because the server counts per calendar minute.
+export const COINGECKO_PLANS: Record<string, RateLimit> = {
+  demo: { requestsPerMinute: 28, burst: 3 },
+  analyst: { requestsPerMinute: 480, burst: 10 },
+  lite: { requestsPerMinute: 480, burst: 10 },
+  pro: { requestsPerMinute: 960, burst: 20 },
+};
+
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+// Time source for pacing and backoff; tests swap in a fake one
+export interface Clock {
+  now(): number;
+  sleep(ms: number): Promise<void>;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  sleep: ms => new Promise(r => setTimeout(r, ms)),
+};
+
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+  private readonly capacity: number;
+  private readonly refillPerMs: number;
+  private readonly clock: Clock;
+  // Serialises waiters so tokens are handed out in request order
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(limit: RateLimit, clock: Clock = systemClock) {
+    this.clock = clock;
+    this.capacity = Math.max(1, limit.burst);
+    this.refillPerMs = limit.requestsPerMinute / 60000;
+    this.tokens = this.capacity;
+    this.lastRefill = clock.now();
+  }
+
+  take(): Promise<void> {
+    const next = this.queue.then(async () => {
+      this.refill();
+      if (this.tokens < 1) {
+        await this.clock.sleep((1 - this.tokens) / this.refillPerMs);
+        this.refill();
+      }
+      this.tokens -= 1;
+    });
+    this.queue = next;
+    return next;
+  }
+
+  // Drop all tokens, e.g. after a 429 tells us the server-side budget is gone
+  drain() {
+    this.refill();
+    this.tokens = Math.min(this.tokens, 0);
+  }
+
+  private refill() {
+    const now = this.clock.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * this.refillPerMs);
+    this.lastRefill = now;
+  }
+}
+
+// Wraps an axios instance with a token-bucket rate limit and retries with
+// exponential backoff and full jitter. 429 responses honour Retry-After.
+export class RequestScheduler {
+  private client: AxiosInstance;
+  private bucket: TokenBucket;
+  private retry: RetryOptions;
+  private label: string;
+  private clock: Clock;
+
+  constructor(label: string, client: AxiosInstance, limit: RateLimit, retry: RetryOptions, clock: Clock = systemClock) {
+    this.label = label;
+    this.client = client;
+    this.bucket = new TokenBucket(limit, clock);
+    this.retry = retry;
+    this.clock = clock;
+  }
+
+  async get<T = any>(url: string, requestConfig?: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+    for (let attempt = 0; ; attempt++) {
+      await this.bucket.take();
+      try {
+        return await this.client.get<T>(url, requestConfig);
+      } catch (err) {
+        if (attempt >= this.retry.maxRetries || !isRetryable(err)) throw err;
+
+        const retryAfterMs = getRetryAfterMs(err, this.clock.now());
+        if (retryAfterMs !== null) this.bucket.drain();
+
+        const backoff = Math.min(this.retry.maxDelayMs, this.retry.baseDelayMs * 2 ** attempt);
+        const delay = retryAfterMs ?? Math.random() * backoff;
+        const status = axios.isAxiosError(err) ? (err.response?.status ?? err.code) : err;
+        console.warn(`[${this.label}] ${url} failed (${status}), retry ${attempt + 1}/${this.retry.maxRetries} in ${Math.round(delay)}ms`);
+        await this.clock.sleep(delay);
+      }
+    }
+  }
+}
+
+function isRetryable(err: unknown): boolean {
+  if (!axios.isAxiosError(err)) return false;
+  if (!err.response) return true; // Timeout, reset, DNS hiccup
+  const status = err.response.status;
+  return status === 429 || status === 408 || status >= 500;
+}
+
+// Retry-After is either delay-seconds or an HTTP date
+export function getRetryAfterMs(err: unknown, now: number = Date.now()): number | null {
+  if (!axios.isAxiosError(err) || !err.response) return null;
+  const header = err.response.headers?.['retry-after'];
+  if (header === undefined || header === null) return null;
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(String(header));
+  return isNaN(date) ? null : Math.max(0, date - now);
+}
+
+// Like Promise.all(items.map(fn)) but with at most `limit` calls in flight.
+// Results keep the order of `items`.
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+}
@@ -0,0 +1,140 @@
+import fs from 'fs-extra';
+import { MarketEventType } from './events';
+import { FontFile } from './theme';
+
+// On-screen text per language, selected with --locale. Messages are templates
+// with {placeholders}; numbers and dates go through Intl with the bundle's tag,
+// so "+5.2%" and "01/05 14:00" follow the language's conventions.
+//
+// Latin-script bundles rely on the theme's fonts. Bundles for scripts that
+// the usual system fonts lack (CJK) list font files under assets/fonts/;
+// the renderer registers them and falls back to them after the theme family,
+// so a Latin theme font still draws the Latin glyphs.
+
+export interface LocaleMessages {
+  title: string; // Used when the theme has no title; same placeholders as a theme title
+  windowDay: string; // {n} = 1
+  windowDays: string;
+  windowHours: string;
+  versus: string; // Chart label in relative mode, {benchmark}
+  basket: string; // Name of the equal-weighted benchmark
+  callouts: Record<MarketEventType, string>; // {symbol}, {pct}
+  sectors: Record<string, string>; // Arena labels of the split layout, by sector name
+}
+
+export interface Locale {
+  tag: string; // BCP 47 tag passed to Intl
+  messages: LocaleMessages;
+  date: Intl.DateTimeFormatOptions; // Chart date label
+  fonts: FontFile[];
+}
+
+const FONT_DIR = 'assets/fonts';
+
+const LOCALES: Record<string, Locale> = {
+  en: {
+    tag: 'en-US',
+    messages: {
+      title: 'Which coin is best in {window}?',
+      windowDay: '1 day',
+      windowDays: '{n} days',
+      windowHours: '{n} hours',
+      versus: 'vs {benchmark}',
+      basket: 'Basket',
+      callouts: {
+        'leader-change': '{symbol} takes the lead!',
+        'breakout': 'BREAKOUT {pct}',
+        'crash': 'CRASH {pct}',
+        'new-high': 'NEW HIGH',
+        'stun': 'STUNNED!',
+      },
+      sectors: {},
+    },
+    date: { month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', hour12: false },
+    fonts: [],
+  },
+  ja: {
+    tag: 'ja-JP',
+    messages: {
+      title: '{window}で一番強いコインは？',
+      windowDay: '1日',
+      windowDays: '{n}日',
+      windowHours: '{n}時間',
+      versus: '{benchmark}比',
+      basket: 'バスケット',
+      callouts: {
+        'leader-change': '{symbol}が首位に！',
+        'breakout': '急騰 {pct}',
+        'crash': '急落 {pct}',
+        'new-high': '最高値更新',
+        'stun': 'ピヨった！',
+      },
+      sectors: {
+        'Layer 1': 'レイヤー1',
+        'Layer 2': 'レイヤー2',
+        'Meme': 'ミーム',
+        'Other': 'その他',
+      },
+    },
+    date: { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit', hour12: false },
+    fonts: [
+      { path: `${FONT_DIR}/NotoSansJP-Regular.ttf`, family: 'Noto Sans JP', weight: 'normal' },
+      { path: `${FONT_DIR}/NotoSansJP-Bold.ttf`, family: 'Noto Sans JP', weight: 'bold' },
+    ],
+  },
+};
+
+export function getLocale(name: string): Locale {
+  const locale = LOCALES[name];
+  if (!locale) {
+    throw new Error(`Unknown locale "${name}" (available: ${Object.keys(LOCALES).join(', ')})`);
+  }
+  return locale;
+}
+
+// getLocale plus a check that the bundle's font files exist. Without them
+// node-canvas silently draws missing glyphs as boxes, so fail before rendering.
+export async function loadLocale(name: string): Promise<Locale> {
+  const locale = getLocale(name);
+  const missing: string[] = [];
+  for (const file of locale.fonts) {
+    if (!(await fs.pathExists(file.path))) missing.push(file.path);
+  }
+  if (missing.length > 0) {
+    throw new Error(
+      `Locale "${name}" needs font files that are missing: ${missing.join(', ')} ` +
+      `(download ${Array.from(new Set(locale.fonts.map(f => f.family))).join(', ')} from Google Fonts)`
+    );
+  }
+  return locale;
+}
+
+// Fills {placeholders}; unknown ones are left as they are
+export function formatMessage(template: string, values: Record<string, string | number>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => (key in values ? String(values[key]) : match));
+}
+
+export function formatWindow(locale: Locale, hours: number): string {
+  const { messages } = locale;
+  if (hours % 24 === 0) return hours === 24 ? messages.windowDay : formatMessage(messages.windowDays, { n: hours / 24 });
+  return formatMessage(messages.windowHours, { n: hours });
+}
+
+// Signed percentage, `value` as a fraction (0.052 -> "+5.2%")
+export function formatPercent(locale: Locale, value: number, digits = 1, signed = true): string {
+  return new Intl.NumberFormat(locale.tag, {
+    style: 'percent',
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+    signDisplay: signed ? 'exceptZero' : 'auto',
+  }).format(value);
+}
+
+export function formatNumber(locale: Locale, value: number, digits: number): string {
+  return new Intl.NumberFormat(locale.tag, { maximumFractionDigits: digits }).format(value);
+}
+
+// Chart date label; the separator comma some locales put before the time is dropped
+export function formatDate(locale: Locale, date: Date): string {
+  return date.toLocaleString(locale.tag, locale.date).replace(',', '');
+}
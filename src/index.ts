@@ -1,11 +1,34 @@
-import { config } from './config';
-import { fetchTopCoins, fetchMarketChart, CoinData } from './coingecko';
-import { computeMetricSeries, normalizeAllSeries, MetricSeries } from './metrics';
-import { PhysicsWorld } from './physics';
+import { config, validateConfig } from './config';
+import { createMarketDataProvider, MarketChartData } from './provider';
+import { mapWithConcurrency } from './http';
+import { describeSelection, resolveSelection, sectorOf } from './universe';
+import { QualityReport, summarizeReport, validateSeries } from './quality';
+import { resolveIndicators } from './indicators';
+import { benchmarkLabel, loadBenchmark, relativeTo } from './benchmark';
+import {
+  buildCommonGrid,
+  computeCorrelationSeries,
+  computeMetricSeries,
+  correlationAt,
+  gridEnd,
+  normalizeAllSeries,
+  MetricSeries,
+} from './metrics';
+import { PhysicsWorld, WorldInputs } from './physics';
 import { Renderer } from './render';
+import { computeSceneLayout } from './layout';
+import { loadBehaviorProfile } from './behavior';
+import { loadTheme } from './theme';
+import { loadLocale } from './i18n';
+import { loadWidgetLayout } from './widget-layout';
+import { resolveCoinEffects } from './coin-effects';
+import { EventDetector } from './events';
+import { findSnapshot, runFingerprint, writeSnapshot } from './snapshot';
+import { dataLifetimes, isActiveAt, rankedLifetimes } from './lifecycle';
 import { VideoEncoder } from './video';
 import { AudioMixer } from './audio';
 import path from 'path';
+import fs from 'fs-extra';
 import { exec } from 'child_process';
 import util from 'util';
 
@@ -14,9 +37,28 @@ const execPromise = util.promisify(exec);
 async function main() {
   console.log('Starting Crypto Mood Video Generator...');
   console.log(config);
+  validateConfig(config);
+
+  // Resolved up front so a broken profile fails before any data is fetched
+  const behavior = await loadBehaviorProfile(config);
+  console.log(`Behavior profile: ${config.behavior}${config.behaviorOverrides.length ? ` (+ ${config.behaviorOverrides.join(', ')})` : ''}`);
+  const theme = await loadTheme(config);
+  const locale = await loadLocale(config.locale);
+  const widgetLayout = await loadWidgetLayout(config);
+  const coinEffects = resolveCoinEffects(config.coinEffects);
+  console.log(`Theme: ${config.theme}, locale: ${config.locale}, widgets: ${config.widgets} (${Object.keys(widgetLayout).join(', ')})`);
 
   // 1. Fetch Data
-  const coins = await fetchTopCoins();
+  const provider = createMarketDataProvider(config);
+  console.log(`Using market data provider: ${provider.name}`);
+  const selection = await resolveSelection(config);
+  console.log(`Coin selection: ${describeSelection(selection)}`);
+  // Re-ranking picks the top N over time from a larger pool of candidates
+  const rerankTopN = selection.ids ? Math.min(config.coins, selection.limit) : selection.limit;
+  const fetchSelection = config.lifecycle.rerank && !selection.ids
+    ? { ...selection, limit: Math.max(selection.limit, config.lifecycle.rerankPool) }
+    : selection;
+  const coins = await provider.fetchTopCoins(fetchSelection);
   console.log(`Fetched ${coins.length} coins.`);
   
   if (coins.length === 0) {
@@ -26,48 +68,102 @@ async function main() {
 
   // 2. Metrics for each coin
   const coinMetrics = new Map<string, MetricSeries[]>();
-  let referenceTimestamps: number[] = [];
   
-  for (const coin of coins) {
+  // Fetch concurrently; the provider's request scheduler keeps us inside the rate limit.
+  const charts = await mapWithConcurrency(coins, config.concurrency, async coin => {
     console.log(`Fetching data for ${coin.name}...`);
     try {
-      const data = await fetchMarketChart(coin.id);
-      if (data.prices.length === 0) continue;
-      
-      const series = computeMetricSeries(data, config.windowHours);
-      // Store raw series first
-      coinMetrics.set(coin.id, series);
-      
-      if (referenceTimestamps.length === 0 && series.length > 0) {
-        referenceTimestamps = series.map(s => s.timestamp);
-      }
-      
-      // Delay to respect rate limit (Demo key: 30 req/min => ~2s delay to be safe)
-      await new Promise(r => setTimeout(r, 2000));
+      return await provider.fetchMarketChart(coin.id, config.days);
     } catch (err) {
-      console.error(`Failed to fetch/process ${coin.name}:`, err);
+      console.error(`Failed to fetch ${coin.name}:`, err);
+      return null;
+    }
+  });
+
+  // Validate & repair before anything touches Math.log
+  const qualityReports: QualityReport[] = [];
+  const validCharts = new Map<string, MarketChartData>();
+
+  coins.forEach((coin, i) => {
+    const raw = charts[i];
+    if (!raw || raw.prices.length === 0) return;
+
+    const { data, report } = validateSeries(coin.id, raw, config.quality);
+    qualityReports.push(report);
+    console.log(`[Quality] ${coin.id}: ${summarizeReport(report)}`);
+    if (data) validCharts.set(coin.id, data);
+  });
+
+  await fs.ensureDir(config.outputDir);
+  await fs.writeJson(path.join(config.outputDir, 'data-quality.json'), qualityReports, { spaces: 2 });
+
+  // Every coin is resampled onto the same grid, so series[i] is the same moment for all coins
+  const grid = buildCommonGrid(Array.from(validCharts.values()), config.gridStepMinutes * 60 * 1000);
+
+  const indicators = resolveIndicators(config.indicators);
+
+  // Which coins are on screen when, from the raw prices (see lifecycle.ts)
+  let lifetimes = dataLifetimes(validCharts, grid);
+  if (config.lifecycle.rerank) {
+    const ranked = rankedLifetimes(validCharts, coins, grid, rerankTopN, config.lifecycle.rerankHours);
+    if (ranked) {
+      lifetimes = ranked;
+      console.log(`[Lifecycle] Top ${rerankTopN} of ${validCharts.size} coins, re-ranked every ${config.lifecycle.rerankHours}h`);
+    } else {
+      console.warn('[Lifecycle] --rerank needs the circulating supply of every coin; showing each coin while it has data');
     }
   }
 
-  if (referenceTimestamps.length === 0) {
-    console.error('No metric data available. Exiting.');
+  // Relative mode: divide every coin by the benchmark before computing metrics
+  const benchmark = await loadBenchmark(config.benchmark, validCharts, grid, provider, config);
+  if (benchmark) {
+    console.log(`[Benchmark] Metrics are relative to ${benchmarkLabel(config.benchmark)}`);
+    validCharts.forEach((data, coinId) => validCharts.set(coinId, relativeTo(data, benchmark)));
+  }
+
+  validCharts.forEach((data, coinId) => {
+    try {
+      // Store raw series first
+      coinMetrics.set(coinId, computeMetricSeries(data, config.windowHours, grid, indicators));
+    } catch (err) {
+      console.error(`Failed to process ${coinId}:`, err);
+    }
+  });
+
+  if (coinMetrics.size === 0 || grid.length < 2) {
     console.error('No metric data available. Exiting.');
     return [];
   }
 
-  // Apply Global Normalization
-  console.log('Normalizing metrics globally across all coins...');
-  normalizeAllSeries(coinMetrics);
+  // Apply Normalization (raw values stay on rawTrend/rawVolatility)
+  const { strategy: normalizationStrategy, ...normalizationOptions } = config.normalization;
+  normalizeAllSeries(coinMetrics, normalizationStrategy, normalizationOptions);
+
+  // Rolling pairwise return correlations, turned into forces between coins
+  const correlations = computeCorrelationSeries(coinMetrics, grid, config.correlationWindowHours);
 
-  const startDate = new Date(referenceTimestamps[0]);
-  const endDate = new Date(referenceTimestamps[referenceTimestamps.length - 1]);
+  const startDate = new Date(grid.start);
+  const endDate = new Date(gridEnd(grid));
   console.log(`Time range: ${startDate.toISOString()} -> ${endDate.toISOString()}`);
 
+  // --frames renders part of the video, resuming from the nearest snapshot
+  const totalFrames = config.durationSec * config.fps;
+  const range = {
+    start: config.frames?.start ?? 0,
+    end: Math.min(config.frames?.end ?? Infinity, totalFrames - 1),
+  };
+  if (range.start > range.end) {
+    throw new Error(`--frames starts after the last frame (${totalFrames - 1})`);
+  }
+  const videoName = config.frames ? `crypto-mood-frames-${range.start}-${range.end}` : 'crypto-mood';
+
   // 3. Setup Physics & Render
-  const world = new PhysicsWorld();
-  const renderer = new Renderer();
-  const videoEncoder = new VideoEncoder();
-  const audioMixer = new AudioMixer(config.durationSec);
+  const scene = computeSceneLayout(config.width, config.height);
+  console.log(`Scene: ${config.width}x${config.height} (${scene.arrangement})`);
+  const world = new PhysicsWorld(scene, behavior);
+  const renderer = new Renderer(scene, theme, locale, widgetLayout, coinEffects);
+  const videoEncoder = new VideoEncoder(path.join(config.outputDir, `${videoName}.mp4`), theme.background.video, range.start);
+  const audioMixer = new AudioMixer((range.end - range.start + 1) / config.fps);
 
   // Load images & audio
   await renderer.loadAssets(coins);
@@ -76,71 +172,114 @@ async function main() {
   // Add coins to world
   // Only add coins that we have metrics for
   const validCoinIds = coins.map(c => c.id).filter(id => coinMetrics.has(id));
-  world.setupCoins(validCoinIds);
+  const sectors = new Map(coins.map(c => [c.id, sectorOf(c)]));
+
+  // Snapshots only fit a run with the same settings and data
+  const { apiKey, frames, snapshotEverySec, snapshotDir, ...simulationSettings } = config;
+  const fingerprint = runFingerprint(simulationSettings, validCoinIds.map(id => [
+    id,
+    coinMetrics.get(id)!.map(m => [m.timestamp, m.price, m.trend, m.volatility]),
+  ]));
+  const snapshot = range.start > 0 ? await findSnapshot(config.snapshotDir, range.start, fingerprint) : null;
+  if (snapshot) {
+    console.log(`[Snapshot] Resuming from frame ${snapshot.frame}`);
+    world.setupCoins(validCoinIds, sectors, []);
+    world.restore(snapshot.world);
+    renderer.restore(snapshot.renderer);
+  } else {
+    if (range.start > 0) {
+      console.warn(`[Snapshot] No snapshot of this run in ${config.snapshotDir}; simulating from frame 0 (use the --seed of the full render)`);
+    }
+    world.setupCoins(validCoinIds, sectors, validCoinIds.filter(id => isActiveAt(lifetimes, id, grid.start)));
+  }
+
+  // Everything needed to reproduce this render: same data + same seed => same frames
+  console.log(`Simulation seed: ${config.seed} (re-render with --seed=${config.seed})`);
+  const settings = { ...simulationSettings, frames, snapshotEverySec, snapshotDir };
+  await fs.writeJson(path.join(config.outputDir, 'run.json'), {
+    seed: config.seed,
+    behavior,
+    coins: validCoinIds,
+    lifetimes: Object.fromEntries(validCoinIds.map(id => [id, lifetimes.get(id)])),
+    startDate: startDate.toISOString(),
+    endDate: endDate.toISOString(),
+    settings,
+  }, { spaces: 2 });
 
   // 4. Simulation Loop
-  const totalFrames = config.durationSec * config.fps;
   const totalTimeMs = endDate.getTime() - startDate.getTime();
   
   console.log(`Generating ${totalFrames} frames...`);
 
-  // Helper to get metrics at a specific time (linear interpolation)
+  const eventDetector = new EventDetector(
+    coinMetrics,
+    grid,
+    { ...config.events, windowHours: config.windowHours },
+    (coinId, time) => isActiveAt(lifetimes, coinId, time)
+  );
+  if (snapshot) eventDetector.restore(snapshot.events);
+
+  // Helper to get metrics at a specific time (linear interpolation).
+  // All series share `grid`, so the surrounding points are found by direct indexing.
   const getMetricsAt = (coinId: string, time: number) => {
     const series = coinMetrics.get(coinId);
-    if (!series) return { trend: 0, vol: 0 };
-    
-    // Find index
-    // Optimization: remember last index?
-    // Series is sorted by timestamp.
-    for (let i = 0; i < series.length - 1; i++) {
-        if (time >= series[i].timestamp && time <= series[i+1].timestamp) {
-            const t0 = series[i].timestamp;
-            const t1 = series[i+1].timestamp;
-            const ratio = (time - t0) / (t1 - t0);
-            
-            return {
-                trend: series[i].trend + (series[i+1].trend - series[i].trend) * ratio,
-                vol: series[i].volatility + (series[i+1].volatility - series[i].volatility) * ratio
-            };
-        }
-    }
+    if (!series || series.length === 0) return { trend: 0, vol: 0 };
+
     // Out of bounds? Clamp.
-    if (time < series[0].timestamp) return { trend: series[0].trend, vol: series[0].volatility };
-    if (time > series[series.length-1].timestamp) return { trend: series[series.length-1].trend, vol: series[series.length-1].volatility };
-    
-    return { trend: 0, vol: 0 };
+    const pos = Math.max(0, Math.min(series.length - 1, (time - grid.start) / grid.stepMs));
+    const i = Math.min(Math.floor(pos), series.length - 2);
+    if (i < 0) return { trend: series[0].trend, vol: series[0].volatility };
+    const ratio = pos - i;
+
+    return {
+        trend: series[i].trend + (series[i+1].trend - series[i].trend) * ratio,
+        vol: series[i].volatility + (series[i+1].volatility - series[i].volatility) * ratio
+    };
   };
 
-  const dtMs = 1000 / config.fps; // Physics step size matches frame rate? 
-  // It's better to step physics with fixed time step, but for video generation we can just sync them.
-  // 30fps video means each frame advances video-time by 1/30s.
-  // BUT the simulation itself represents 30 days of data in 30 seconds.
-  // The physics simulation should run in "real-time" speed visually (bouncing, hopping) 
-  // OR should it be sped up?
-  // "Generate a vertical short video... icons behave like 'living' particles"
-  // Usually this means the physics runs at normal speed (1 sec physics = 1 sec video),
-  // but the DATA driving the parameters (trend/vol) is sped up (30 days -> 30 sec).
-  // So:
-  // Physics dt = 1/30 sec (real time)
-  // Data time dt = (30 days) / (30 * 30 frames) = ~1 days / 30 frames = 24h/30 = 0.8 hours = 48 mins per frame.
+  // Physics runs on its own fixed step (--physics_hz) at real-time speed:
+  // 1 sec physics = 1 sec video, while the DATA driving trend/vol is sped up
+  // (30 days -> 35 sec). Both clocks are tied to video time, not to frames,
+  // so the frame rate only decides how often the world is drawn.
+  const frameMs = 1000 / config.fps;
+  const videoMs = config.durationSec * 1000;
+  const dataTimeAt = (videoTimeMs: number) => startDate.getTime() + (videoTimeMs / videoMs) * totalTimeMs;
+
+  const inputsAt = (simTimeMs: number): WorldInputs => {
+    const dataTime = dataTimeAt(simTimeMs);
+    const coinInputs = new Map<string, { trend: number, vol: number }>();
+    validCoinIds.forEach(id => coinInputs.set(id, getMetricsAt(id, dataTime)));
+    return {
+      coinMetrics: coinInputs,
+      correlations: { ids: correlations.ids, matrix: correlationAt(correlations, dataTime) },
+      active: new Set(validCoinIds.filter(id => isActiveAt(lifetimes, id, dataTime))),
+    };
+  };
   
-  for (let f = 0; f < totalFrames; f++) {
+  const firstFrame = snapshot?.frame ?? 0;
+  const snapshotEveryFrames = Math.round(config.snapshotEverySec * config.fps);
+
+  for (let f = firstFrame; f <= range.end; f++) {
     const progress = f / totalFrames;
-    const currentDataTime = startDate.getTime() + progress * totalTimeMs;
-    
-    // Get current metrics for all coins
-    const currentMetrics = new Map<string, { trend: number, vol: number }>();
-    validCoinIds.forEach(id => {
-        currentMetrics.set(id, getMetricsAt(id, currentDataTime));
-    });
+    const currentDataTime = dataTimeAt(f * frameMs);
 
-    // Update Physics
-    // We step the physics world by 1000/30 ms (approx 33ms)
-    world.update(dtMs, currentMetrics);
+    // State before this frame, so a later --frames render can start here
+    if (snapshotEveryFrames > 0 && f > firstFrame && f % snapshotEveryFrames === 0) {
+      await writeSnapshot(config.snapshotDir, {
+        frame: f,
+        fingerprint,
+        world: world.snapshot(),
+        events: eventDetector.snapshot(),
+        renderer: renderer.snapshot(),
+      });
+    }
+
+    // Update Physics (fixed substeps up to this frame's time)
+    world.advance(f === 0 ? 0 : frameMs, inputsAt);
 
     // Audio Events
     const events = world.consumeCollisionEvents();
-    const timeSec = f / config.fps;
+    const timeSec = (f - range.start) / config.fps; // Negative while catching up to --frames
     events.forEach(e => {
         // Volume logic: velocity 1.0 (min) to ~20.0 (max)
         // Logarithmic-ish scaling? Linear for now.
@@ -151,6 +290,15 @@ async function main() {
         }
     });
 
+    // Market events: callout + chime
+    const marketEvents = eventDetector.detect(f, currentDataTime, world);
+    marketEvents.forEach(e => {
+        console.log(`[Event] ${new Date(e.time).toISOString()} ${e.type} ${e.coinId}`);
+        const bad = e.type === 'crash' || e.type === 'stun';
+        audioMixer.addEvent(timeSec, bad ? 'alert' : 'chime', e.type === 'leader-change' ? 0.8 : 0.5);
+    });
+    renderer.showEvents(marketEvents);
+
     // Render
     renderer.renderFrame(
         world, 
@@ -161,8 +309,10 @@ async function main() {
         coinMetrics
     );
     
-    // Encode
-    videoEncoder.writeFrame(renderer.getBuffer());
+    // Encode (frames before --frames are drawn only to carry chart and callout state)
+    if (f >= range.start) {
+      videoEncoder.writeFrame(renderer.getBuffer());
+    }
     
     if (f % 30 === 0) {
         console.log(`Frame ${f}/${totalFrames} (${Math.round(progress*100)}%)`);
@@ -171,6 +321,9 @@ async function main() {
 
   // Finish
   await videoEncoder.finish();
+  if (!config.frames) {
+    await fs.writeJson(path.join(config.outputDir, 'events.json'), eventDetector.history, { spaces: 2 });
+  }
   
   // Export Audio
   const audioPath = path.join(config.outputDir, 'audio.pcm');
@@ -178,8 +331,8 @@ async function main() {
 
   // Merge Video + Audio
   console.log('Merging Audio and Video...');
-  const videoPath = path.join(config.outputDir, 'crypto-mood.mp4');
-  const finalPath = path.join(config.outputDir, 'crypto-mood-final.mp4');
+  const videoPath = videoEncoder.outputPath;
+  const finalPath = path.join(config.outputDir, `${videoName}-final.mp4`);
 
   // FFmpeg command: Input Video + Input raw PCM (f32le) -> Output MP4 (AAC)
   // -map 0:v -map 1:a ensures we take video from input 0 and audio from input 1
@@ -0,0 +1,121 @@
+// Registry of named indicators computed over the same rolling window as
+// trend/volatility. Each one sees the evenly spaced window (see TimeGrid in
+// metrics.ts) and returns a single number, stored on MetricSeries.indicators.
+
+export interface IndicatorContext {
+  prices: number[]; // Window prices, oldest first
+  logReturns: number[]; // prices.length - 1 entries
+  volumes?: number[]; // Per-point volume, when the provider has candles
+  stepHours: number; // Spacing of the points
+}
+
+export interface Indicator {
+  name: string;
+  description: string;
+  requiresVolume?: boolean;
+  compute(ctx: IndicatorContext): number;
+}
+
+const registry = new Map<string, Indicator>();
+
+export function registerIndicator(indicator: Indicator) {
+  if (registry.has(indicator.name)) {
+    throw new Error(`Indicator already registered: ${indicator.name}`);
+  }
+  registry.set(indicator.name, indicator);
+}
+
+export function listIndicators(): Indicator[] {
+  return Array.from(registry.values());
+}
+
+export function resolveIndicators(names: string[]): Indicator[] {
+  return names.map(name => {
+    const indicator = registry.get(name);
+    if (!indicator) {
+      throw new Error(`Unknown indicator "${name}" (available: ${Array.from(registry.keys()).join(', ')})`);
+    }
+    return indicator;
+  });
+}
+
+function mean(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+function stddev(values: number[]): number {
+  if (values.length < 2) return 0;
+  const m = mean(values);
+  return Math.sqrt(values.reduce((acc, v) => acc + (v - m) ** 2, 0) / (values.length - 1));
+}
+
+function ema(values: number[], period: number): number {
+  const alpha = 2 / (period + 1);
+  let result = values[0];
+  for (let i = 1; i < values.length; i++) {
+    result = alpha * values[i] + (1 - alpha) * result;
+  }
+  return result;
+}
+
+// --- Built-in indicators ---
+
+registerIndicator({
+  name: 'rsi',
+  description: 'Relative Strength Index over the window, 0..100 (50 = balanced)',
+  compute: ({ logReturns }) => {
+    let gains = 0;
+    let losses = 0;
+    logReturns.forEach(r => {
+      if (r > 0) gains += r;
+      else losses -= r;
+    });
+    if (gains + losses === 0) return 50;
+    return (100 * gains) / (gains + losses);
+  },
+});
+
+registerIndicator({
+  name: 'drawdown',
+  description: 'Largest peak-to-trough fall inside the window, 0..1',
+  compute: ({ prices }) => {
+    let peak = prices[0];
+    let maxDrawdown = 0;
+    prices.forEach(p => {
+      if (p > peak) peak = p;
+      maxDrawdown = Math.max(maxDrawdown, (peak - p) / peak);
+    });
+    return maxDrawdown;
+  },
+});
+
+registerIndicator({
+  name: 'momentum',
+  description: 'EMA crossover: (fast EMA - slow EMA) / slow EMA, fast = 1/4 of the window',
+  compute: ({ prices }) => {
+    const slow = ema(prices, prices.length);
+    const fast = ema(prices, Math.max(2, Math.round(prices.length / 4)));
+    return slow === 0 ? 0 : (fast - slow) / slow;
+  },
+});
+
+registerIndicator({
+  name: 'sharpe',
+  description: 'Mean / stddev of log returns, scaled to one day (no risk-free rate)',
+  compute: ({ logReturns, stepHours }) => {
+    const sd = stddev(logReturns);
+    if (sd === 0) return 0;
+    return (mean(logReturns) / sd) * Math.sqrt(24 / stepHours);
+  },
+});
+
+registerIndicator({
+  name: 'volume_z',
+  description: 'Z-score of the latest volume against the window',
+  requiresVolume: true,
+  compute: ({ volumes }) => {
+    if (!volumes || volumes.length < 2) return 0;
+    const sd = stddev(volumes);
+    return sd === 0 ? 0 : (volumes[volumes.length - 1] - mean(volumes)) / sd;
+  },
+});
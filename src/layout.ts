@@ -0,0 +1,83 @@
+// Screen composition computed from the output size. PhysicsWorld and Renderer
+// both take their geometry from here, so the walls and the drawn box always match.
+//
+// The reference is the original 1080x1920 short:
+//   title y=180, leaderboard y=280, box 960x960 at (60, 380), chart 960x400 at (60, 1400)
+// Tall outputs stack header, box and chart; wide and square outputs put the
+// chart next to the box under a full-width header.
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SceneLayout {
+  width: number;
+  height: number;
+  arrangement: 'stacked' | 'side';
+  scale: number; // Text and UI element scale, 1 = reference composition
+  margin: number;
+  titleY: number;
+  leaderboardY: number;
+  box: Rect; // Square area the world layout is carved from (see arena.ts)
+  chart: Rect;
+  coinScale: number; // Box size relative to the reference 960px box; scales coin radii
+}
+
+const REFERENCE_BOX = 960;
+
+// Below this height/width ratio the stacked composition leaves too little room for the box
+const STACKED_MIN_ASPECT = 1.5;
+
+export function computeSceneLayout(width: number, height: number): SceneLayout {
+  if (height / width >= STACKED_MIN_ASPECT) {
+    const scale = Math.min(width / 1080, height / 1920);
+    const margin = 60 * scale;
+    const boxTop = 380 * scale;
+    const gap = 60 * scale;
+    const bottom = 120 * scale;
+    const minChart = 400 * scale;
+
+    const size = Math.min(width - 2 * margin, height - boxTop - gap - minChart - bottom);
+    const box = { x: (width - size) / 2, y: boxTop, width: size, height: size };
+    // Extra height goes to the chart
+    const chartY = box.y + size + gap;
+
+    return {
+      width,
+      height,
+      arrangement: 'stacked',
+      scale,
+      margin,
+      titleY: 180 * scale,
+      leaderboardY: 280 * scale,
+      box,
+      chart: { x: margin, y: chartY, width: width - 2 * margin, height: height - bottom - chartY },
+      coinScale: size / REFERENCE_BOX,
+    };
+  }
+
+  const scale = Math.min(width / 1920, height / 1080);
+  const margin = 60 * scale;
+  const contentTop = 290 * scale;
+
+  // Box on the left, at most 55% of the usable width so the chart stays readable
+  const size = Math.min(height - contentTop - margin, (width - 3 * margin) * 0.55);
+  const box = { x: margin, y: contentTop, width: size, height: size };
+  const chartX = box.x + size + margin;
+
+  return {
+    width,
+    height,
+    arrangement: 'side',
+    scale,
+    margin,
+    titleY: 110 * scale,
+    leaderboardY: 210 * scale,
+    box,
+    chart: { x: chartX, y: contentTop, width: width - margin - chartX, height: size },
+    coinScale: size / REFERENCE_BOX,
+  };
+}
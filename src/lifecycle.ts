@@ -0,0 +1,92 @@
+import { CoinData, MarketChartData } from './provider';
+import { TimeGrid } from './metrics';
+
+// When each coin is on screen, in data time. PhysicsWorld spawns a coin when
+// it becomes active and plays the exit animation when it stops being active.
+//
+// Without re-ranking a coin is active while it has data, so a coin listed
+// halfway through a long replay pops in when its history begins. With
+// --rerank the visible set is the top N by market cap, re-evaluated every
+// rerankHours, so coins climbing into or dropping out of the top N come and go.
+
+export interface ActiveInterval {
+  start: number;
+  end: number; // Inclusive
+}
+
+export type CoinLifetimes = Map<string, ActiveInterval[]>;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// First to last data point, widened by one grid step so a coin whose history
+// starts a few minutes after the others doesn't count as a newcomer
+function dataRange(data: MarketChartData, grid: TimeGrid): ActiveInterval {
+  return { start: data.prices[0][0] - grid.stepMs, end: data.prices[data.prices.length - 1][0] + grid.stepMs };
+}
+
+// Active while the coin has data
+export function dataLifetimes(charts: Map<string, MarketChartData>, grid: TimeGrid): CoinLifetimes {
+  const lifetimes: CoinLifetimes = new Map();
+  charts.forEach((data, id) => lifetimes.set(id, [dataRange(data, grid)]));
+  return lifetimes;
+}
+
+// Last price at or before `time` (the series is sorted by timestamp)
+function priceAt(prices: [number, number][], time: number): number {
+  let lo = 0;
+  let hi = prices.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (prices[mid][0] <= time) lo = mid;
+    else hi = mid - 1;
+  }
+  return prices[lo][1];
+}
+
+// Top `topN` by market cap at every checkpoint. Historical market caps are
+// estimated as price x today's circulating supply, which keeps the ranking
+// right for everything but coins with large supply changes over the range.
+// Returns null when the coin list has no supply figures (e.g. a replay
+// without circulatingSupply in coins.json).
+export function rankedLifetimes(
+  charts: Map<string, MarketChartData>,
+  coins: CoinData[],
+  grid: TimeGrid,
+  topN: number,
+  rerankHours: number
+): CoinLifetimes | null {
+  const supply = new Map<string, number>();
+  coins.forEach(c => {
+    if (charts.has(c.id) && c.circulatingSupply && c.circulatingSupply > 0) supply.set(c.id, c.circulatingSupply);
+  });
+  if (supply.size < charts.size) return null;
+
+  const ranges = new Map(Array.from(charts.entries()).map(([id, data]) => [id, dataRange(data, grid)]));
+  const lifetimes: CoinLifetimes = new Map(Array.from(charts.keys()).map(id => [id, []]));
+  const stepMs = Math.max(grid.stepMs, rerankHours * HOUR_MS);
+  const end = grid.start + (grid.length - 1) * grid.stepMs;
+
+  for (let time = grid.start; time <= end; time += stepMs) {
+    const next = Math.min(end, time + stepMs);
+    const ranked = Array.from(charts.entries())
+      .filter(([id]) => ranges.get(id)!.start <= time && ranges.get(id)!.end >= time)
+      .map(([id, data]) => ({ id, cap: priceAt(data.prices, time) * supply.get(id)! }))
+      .sort((a, b) => b.cap - a.cap)
+      .slice(0, topN);
+
+    ranked.forEach(({ id }) => {
+      const intervals = lifetimes.get(id)!;
+      const intervalEnd = Math.min(next, ranges.get(id)!.end);
+      const last = intervals[intervals.length - 1];
+      // Still in the top N: extend the current interval
+      if (last && last.end >= time) last.end = intervalEnd;
+      else intervals.push({ start: time, end: intervalEnd });
+    });
+  }
+
+  return lifetimes;
+}
+
+export function isActiveAt(lifetimes: CoinLifetimes, coinId: string, time: number): boolean {
+  return (lifetimes.get(coinId) || []).some(i => time >= i.start && time <= i.end);
+}
@@ -1,19 +1,25 @@
-import { MarketChartData } from './coingecko';
+import { MarketChartData } from './provider';
+import { Indicator, IndicatorContext } from './indicators';
+import { DEFAULT_NORMALIZATION_OPTIONS, getNormalizationStrategy, NormalizationOptions } from './normalization';
 
 export interface Metrics {
-  trend: number; // Slope of log price
-  volatility: number; // Stddev of log returns
+  trend: number; // Slope of log price (per hour once on the grid)
+  volatility: number; // Stddev of log returns (per hour once on the grid)
 }
 
 export interface MetricSeries {
   timestamp: number;
-  trend: number;
-  volatility: number;
+  trend: number; // Normalized to [-1, 1] by normalizeAllSeries
+  volatility: number; // Normalized to [0, 1] by normalizeAllSeries
+  rawTrend: number; // Log-price slope per hour
+  rawVolatility: number; // Stddev of log returns per hour
   price: number;
+  volume?: number; // Candle volume when the provider supplies OHLCV
+  indicators: Record<string, number>; // Keyed by indicator name; empty until the window has filled
 }
 
-// Calculates metrics for a single window ending at `endIndex`.
-// prices is the full array of prices (or chunk).
+// Calculates metrics for a single window of evenly spaced prices.
+// Slope and stddev are per sample; computeMetricSeries converts them to per hour.
 function calculateWindowMetrics(values: number[], windowSize: number): Metrics {
   if (values.length < windowSize) {
     return { trend: 0, volatility: 0 };
@@ -64,56 +70,204 @@ function calculateWindowMetrics(values: number[], windowSize: number): Metrics {
   return { trend: slope, volatility };
 }
 
+// Common time grid shared by every coin's series, so index i means the same
+// moment for all of them and windows can be expressed in real durations.
+export interface TimeGrid {
+  start: number; // epoch ms of index 0
+  stepMs: number;
+  length: number;
+}
+
+export function gridTimestamp(grid: TimeGrid, index: number): number {
+  return grid.start + index * grid.stepMs;
+}
+
+export function gridEnd(grid: TimeGrid): number {
+  return gridTimestamp(grid, grid.length - 1);
+}
+
+// Grid covering every coin's data, aligned to whole steps.
+export function buildCommonGrid(charts: MarketChartData[], stepMs: number): TimeGrid {
+  let first = Infinity;
+  let last = -Infinity;
+  charts.forEach(c => {
+    if (c.prices.length === 0) return;
+    first = Math.min(first, c.prices[0][0]);
+    last = Math.max(last, c.prices[c.prices.length - 1][0]);
+  });
+  if (!isFinite(first)) return { start: 0, stepMs, length: 0 };
+
+  const start = Math.ceil(first / stepMs) * stepMs;
+  const end = Math.floor(last / stepMs) * stepMs;
+  return { start, stepMs, length: Math.max(0, Math.floor((end - start) / stepMs) + 1) };
+}
+
+// Samples a (sorted) series at every grid point: prices are linearly
+// interpolated, volume is the candle volume that fell into (t - step, t].
+// Outside the coin's own range the first/last price is held flat.
+export function resampleToGrid(data: MarketChartData, grid: TimeGrid): { prices: number[]; volumes?: number[] } {
+  const { prices: raw, candles } = data;
+  const prices: number[] = [];
+  const volumes: number[] | undefined = candles ? [] : undefined;
+  let j = 0;
+  let c = 0;
+
+  for (let i = 0; i < grid.length; i++) {
+    const t = gridTimestamp(grid, i);
+    while (j < raw.length - 1 && raw[j + 1][0] <= t) j++;
+
+    if (t <= raw[0][0]) {
+      prices.push(raw[0][1]);
+    } else if (j >= raw.length - 1) {
+      prices.push(raw[raw.length - 1][1]);
+    } else {
+      const [t0, p0] = raw[j];
+      const [t1, p1] = raw[j + 1];
+      prices.push(p0 + (p1 - p0) * ((t - t0) / (t1 - t0)));
+    }
+
+    if (candles && volumes) {
+      let volume = 0;
+      while (c < candles.length && candles[c].timestamp <= t) {
+        if (candles[c].timestamp > t - grid.stepMs) volume += candles[c].volume;
+        c++;
+      }
+      volumes.push(volume);
+    }
+  }
+
+  return { prices, volumes };
+}
+
 export function computeMetricSeries(
   data: MarketChartData,
-  windowHours: number
+  windowHours: number,
+  grid: TimeGrid,
+  indicators: Indicator[] = []
 ): MetricSeries[] {
-  const { prices } = data;
+  const { prices, volumes } = resampleToGrid(data, grid);
   const series: MetricSeries[] = [];
 
-  // We can compute metrics starting from index = windowHours
-  for (let i = 0; i < prices.length; i++) {
-    // Current timestamp at i
-    const timestamp = prices[i][0];
-    const price = prices[i][1];
-    
-    // We need 'windowHours' number of data points ending at i.
-    // So slice from [i - windowHours + 1] to [i] (inclusive), total windowHours points.
-    // If i < windowHours - 1, we don't have enough data.
-    // But requirement says "processing last 30 days".
-    // We strictly need 48 data points for calculation.
-    
-    // To ensure we have metrics for the "start" of the 30 days, we assume the input `data` 
-    // might ideally strictly cover the 30 days requested. 
-    // However, for the very first frame (t=0), we need the *previous* 48 hours.
-    // CoinGecko `days=30` actually returns 30 * 24 = 720 points approx?
-    // Usually it returns hourly points for the range requested.
-    // If we only requested 30 days, indices 0..47 won't have enough history if we start strictly at i=0.
-    // BUT the requirement is: "Use CoinGecko hourly price data for the last 30 days".
-    // Computations are on "48-hour rolling window".
-    // Simply: for the first usable hour, we need 48 prior hours.
-    // We might accept "ramp-up" or just return 0, or careful handling.
-    // Since we are "visualizing 30 days", maybe we visualize from t=0.
-    // If we only fetched 30 days, we can't compute rolling 48h for the first 48 hours properly with full history.
-    // We'll just clamp the window to what's available? Or just accept 0?
-    // Let's assume we do best effort or start visualizing after window fills?
-    // Requirement: "Video starts immediately... 30-day period".
-    // So likely the first 2 days will have "incomplete" metrics or we can just treat the available history as the window.
-    // Let's use `Math.min(i + 1, windowHours)` data points for the start.
-    
-    // Extract prices leading up to i
-    const startIdx = Math.max(0, i - windowHours + 1);
-    const windowSlice = prices.slice(startIdx, i + 1).map(p => p[1]);
+  // The window is a real duration; on a uniform grid that is a fixed number of points.
+  const stepHours = grid.stepMs / (60 * 60 * 1000);
+  const windowSize = Math.max(2, Math.round(windowHours / stepHours));
+
+  for (let i = 0; i < grid.length; i++) {
+    // Early points don't have a full window of history yet; calculateWindowMetrics
+    // returns zeros for them (ramp-up) rather than extrapolating from a few points.
+    const startIdx = Math.max(0, i - windowSize + 1);
+    const windowSlice = prices.slice(startIdx, i + 1);
     
-    // Calculate
-    const { trend, volatility } = calculateWindowMetrics(windowSlice, windowHours);
+    const metrics = calculateWindowMetrics(windowSlice, windowSize);
     
-    series.push({ timestamp, trend, volatility, price });
+    // Per-step slope -> per-hour slope; per-step stddev -> per-hour stddev (sqrt-time scaling)
+    const rawTrend = metrics.trend / stepHours;
+    const rawVolatility = metrics.volatility / Math.sqrt(stepHours);
+
+    const point: MetricSeries = {
+      timestamp: gridTimestamp(grid, i),
+      trend: rawTrend,
+      volatility: rawVolatility,
+      rawTrend,
+      rawVolatility,
+      price: prices[i],
+      indicators: {},
+    };
+    if (volumes) point.volume = volumes[i];
+
+    // Extra indicators share the window; like trend/volatility they wait for a full one
+    if (indicators.length > 0 && windowSlice.length >= windowSize) {
+      const ctx: IndicatorContext = {
+        prices: windowSlice,
+        logReturns: windowSlice.slice(1).map((p, k) => Math.log(p / windowSlice[k])),
+        volumes: volumes?.slice(startIdx, i + 1),
+        stepHours,
+      };
+      indicators.forEach(ind => {
+        if (ind.requiresVolume && !ctx.volumes) return;
+        point.indicators[ind.name] = ind.compute(ctx);
+      });
+    }
+
+    series.push(point);
   }
 
   return series;
 }
 
+// Rolling pairwise correlation of log returns, one matrix per grid index.
+// matrices[k][a * ids.length + b] is the correlation of ids[a] and ids[b]
+// over the window ending at grid index k.
+export interface CorrelationSeries {
+  ids: string[];
+  grid: TimeGrid;
+  matrices: Float32Array[];
+}
+
+function pearson(x: number[], y: number[], from: number, to: number): number {
+  const n = to - from;
+  if (n < 3) return 0;
+  let sx = 0, sy = 0, sxx = 0, syy = 0, sxy = 0;
+  for (let k = from; k < to; k++) {
+    sx += x[k]; sy += y[k];
+    sxx += x[k] * x[k]; syy += y[k] * y[k];
+    sxy += x[k] * y[k];
+  }
+  const cov = sxy - (sx * sy) / n;
+  const varX = sxx - (sx * sx) / n;
+  const varY = syy - (sy * sy) / n;
+  if (varX <= 1e-20 || varY <= 1e-20) return 0; // A flat series correlates with nothing
+  return Math.max(-1, Math.min(1, cov / Math.sqrt(varX * varY)));
+}
+
+export function computeCorrelationSeries(
+  allSeries: Map<string, MetricSeries[]>,
+  grid: TimeGrid,
+  windowHours: number
+): CorrelationSeries {
+  const ids = Array.from(allSeries.keys());
+  const n = ids.length;
+  const windowSize = Math.max(3, Math.round(windowHours / (grid.stepMs / (60 * 60 * 1000))));
+
+  // returns[c][k] is the log return into grid index k (index 0 has none and stays 0)
+  const returns = ids.map(id => {
+    const series = allSeries.get(id)!;
+    return series.map((s, k) => (k === 0 ? 0 : Math.log(s.price / series[k - 1].price)));
+  });
+
+  const matrices: Float32Array[] = [];
+  for (let k = 0; k < grid.length; k++) {
+    const m = new Float32Array(n * n);
+    const from = Math.max(1, k - windowSize + 1);
+    for (let a = 0; a < n; a++) {
+      m[a * n + a] = 1;
+      for (let b = a + 1; b < n; b++) {
+        const c = pearson(returns[a], returns[b], from, k + 1);
+        m[a * n + b] = c;
+        m[b * n + a] = c;
+      }
+    }
+    matrices.push(m);
+  }
+
+  return { ids, grid, matrices };
+}
+
+// Correlation matrix at an arbitrary time, linearly interpolated between grid points.
+export function correlationAt(cs: CorrelationSeries, time: number): Float32Array {
+  const last = cs.matrices.length - 1;
+  const pos = Math.max(0, Math.min(last, (time - cs.grid.start) / cs.grid.stepMs));
+  const i = Math.floor(pos);
+  if (i >= last) return cs.matrices[last];
+
+  const ratio = pos - i;
+  const a = cs.matrices[i];
+  const b = cs.matrices[i + 1];
+  const out = new Float32Array(a.length);
+  for (let k = 0; k < a.length; k++) out[k] = a[k] + (b[k] - a[k]) * ratio;
+  return out;
+}
+
 export interface MetricRanges {
   minTrend: number;
   maxTrend: number;
@@ -121,59 +275,15 @@ export interface MetricRanges {
   maxVol: number;
 }
 
-// Helper to normalize globally across all coins
-export function normalizeAllSeries(allSeries: Map<string, MetricSeries[]>): void {
-    let allTrends: number[] = [];
-    let allVols: number[] = [];
-
-    // 1. Collect all values
-    for (const series of allSeries.values()) {
-        for (const s of series) {
-            allTrends.push(s.trend);
-            allVols.push(s.volatility);
-        }
-    }
-
-    if (allTrends.length === 0) return;
-
-    const getPercentile = (arr: number[], q: number) => {
-        const sorted = [...arr].sort((a, b) => a - b);
-        const pos = (sorted.length - 1) * q;
-        const base = Math.floor(pos);
-        const rest = pos - base;
-        if (sorted[base + 1] !== undefined) {
-          return sorted[base] + rest * (sorted[base + 1] - sorted[base]);
-        } else {
-          return sorted[base];
-        }
-    };
-    
-    // Trend: map p5..p95 to [-1, 1]?
-    const tMin = getPercentile(allTrends, 0.05);
-    const tMax = getPercentile(allTrends, 0.95);
-    
-    // Vol: map 0..p95 to 0..1?
-    const vMin = 0; // Volatility is always positive, 0 is calm.
-    const vMax = getPercentile(allVols, 0.95);
-    
-    console.log(`[Metrics] Global Normalization Bounds: Trend=[${tMin.toFixed(4)}, ${tMax.toFixed(4)}], VolMax=${vMax.toFixed(4)}`);
-
-    // 2. Apply normalization
-    for (const series of allSeries.values()) {
-        for (const s of series) {
-            // Normalize Trend
-            let t = s.trend;
-            if (t < tMin) t = tMin;
-            if (t > tMax) t = tMax;
-            // Map [tMin, tMax] to [-1, 1]
-            s.trend = tMin === tMax ? 0 : ((t - tMin) / (tMax - tMin)) * 2 - 1;
-            
-            // Normalize Volatility
-            let v = s.volatility;
-            if (v < vMin) v = vMin;
-            if (v > vMax) v = vMax;
-            // Map [0, vMax] to [0, 1]
-            s.volatility = vMax === 0 ? 0 : (v / vMax);
-        }
-    }
+// Normalizes trend/volatility of every series with the named strategy.
+// Raw values stay on rawTrend/rawVolatility, so this can be re-run with a
+// different strategy without recomputing the series.
+export function normalizeAllSeries(
+  allSeries: Map<string, MetricSeries[]>,
+  strategyName: string = 'global-percentile',
+  options: NormalizationOptions = DEFAULT_NORMALIZATION_OPTIONS
+): void {
+    const strategy = getNormalizationStrategy(strategyName);
+    console.log(`[Metrics] Normalizing with strategy: ${strategy.name}`);
+    strategy.apply(allSeries, options);
 }
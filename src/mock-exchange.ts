@@ -0,0 +1,93 @@
+import http from 'http';
+import minimist from 'minimist';
+import { INTERVAL_MS } from './binance';
+
+// Local stand-in for the Binance klines endpoint so the kline provider can be
+// exercised without network access:
+//   pnpm run mock-exchange --port=8787
+//   pnpm run generate --provider=binance --kline_base_url=http://localhost:8787
+//
+// Candles are a deterministic random walk per symbol, so repeated runs return
+// identical data for the same time range.
+
+// Small string -> seed hash and PRNG so each symbol gets its own stable walk.
+function hashString(s: string): number {
+  let h = 2166136261;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+}
+
+export function candleAt(symbol: string, openTime: number, stepMs: number): (string | number)[] {
+  // Price is a smooth function of time plus per-candle noise, so any window can
+  // be generated independently without replaying the walk from the beginning.
+  const seed = hashString(symbol);
+  const t = openTime / stepMs;
+  const base = 10 + (seed % 1000);
+  const noise = (k: number) => ((hashString(`${symbol}:${openTime}:${k}`) % 10000) / 10000 - 0.5);
+
+  const drift = Math.sin(t / 37 + seed) * 0.08 + Math.sin(t / 11 + seed / 7) * 0.03;
+  const open = base * (1 + drift);
+  const close = open * (1 + noise(0) * 0.02);
+  const high = Math.max(open, close) * (1 + Math.abs(noise(1)) * 0.01);
+  const low = Math.min(open, close) * (1 - Math.abs(noise(2)) * 0.01);
+  const volume = 1000 * (1 + Math.abs(noise(3)) * 4);
+
+  return [
+    openTime,
+    open.toFixed(6),
+    high.toFixed(6),
+    low.toFixed(6),
+    close.toFixed(6),
+    volume.toFixed(3),
+    openTime + stepMs - 1,
+  ];
+}
+
+// Not listening yet; tests listen on port 0 to get a free port
+export function createMockExchange(): http.Server {
+  return http.createServer(handleRequest);
+}
+
+function handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+  const url = new URL(req.url || '/', 'http://localhost');
+
+  if (url.pathname !== '/api/v3/klines') {
+    res.writeHead(404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ msg: 'Not found' }));
+    return;
+  }
+
+  const symbol = url.searchParams.get('symbol') || '';
+  const interval = url.searchParams.get('interval') || '1h';
+  const stepMs = INTERVAL_MS[interval];
+  if (!symbol || !stepMs) {
+    res.writeHead(400, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ msg: 'Invalid symbol or interval' }));
+    return;
+  }
+
+  const limit = Math.min(1000, Number(url.searchParams.get('limit')) || 500);
+  const endTime = Number(url.searchParams.get('endTime')) || Date.now();
+  const startParam = Number(url.searchParams.get('startTime'));
+  const startTime = startParam || endTime - limit * stepMs;
+
+  const rows: (string | number)[][] = [];
+  for (let t = Math.ceil(startTime / stepMs) * stepMs; t <= endTime && rows.length < limit; t += stepMs) {
+    rows.push(candleAt(symbol, t, stepMs));
+  }
+
+  res.writeHead(200, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(rows));
+}
+
+// Only run if executed directly
+if (require.main === module) {
+  const args = minimist(process.argv.slice(2));
+  const port = Number(args.port) || 8787;
+  createMockExchange().listen(port, () => {
+    console.log(`[MockExchange] Serving klines on http://localhost:${port}/api/v3/klines`);
+  });
+}
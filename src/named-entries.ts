@@ -0,0 +1,51 @@
+import fs from 'fs-extra';
+import path from 'path';
+import YAML from 'yaml';
+
+// Shared loading for the files that map names to settings (behavior profiles,
+// themes, widget layouts). Entries in the file shadow built-ins of the same
+// name and may `extends` another entry, built-in or from the file.
+//
+// The validators of the merged results throw one error listing every
+// problem, so a broken file is fixed in one go.
+
+export interface NamedEntry {
+  extends?: string;
+}
+
+// A missing file has no entries; `kind` names an entry in errors ("theme")
+export async function loadNamedEntries<T extends NamedEntry>(file: string, kind: string): Promise<Record<string, T>> {
+  if (!(await fs.pathExists(file))) return {};
+  const text = await fs.readFile(file, 'utf8');
+  const parsed = path.extname(file) === '.json' ? JSON.parse(text) : YAML.parse(text);
+  if (parsed !== null && (typeof parsed !== 'object' || Array.isArray(parsed))) {
+    throw new Error(`${file} must map ${kind} names to settings`);
+  }
+  return parsed || {};
+}
+
+// Follows `extends` from `name`; returns the chain root first, so merging in
+// order lets each entry override its parent. `available` lists every name
+// for the unknown-name error.
+export function resolveExtendsChain<T extends NamedEntry>(
+  name: string,
+  lookup: (name: string) => T | undefined,
+  kind: string,
+  available: string[]
+): T[] {
+  const label = kind.charAt(0).toUpperCase() + kind.slice(1);
+  const chain: T[] = [];
+  const seen = new Set<string>();
+  let current: string | undefined = name;
+  while (current !== undefined) {
+    if (seen.has(current)) throw new Error(`${label} "${current}" extends itself`);
+    seen.add(current);
+    const entry = lookup(current);
+    if (!entry) {
+      throw new Error(`Unknown ${kind} "${current}" (available: ${Array.from(new Set(available)).join(', ')})`);
+    }
+    chain.unshift(entry);
+    current = entry.extends;
+  }
+  return chain;
+}
@@ -0,0 +1,184 @@
+import { MetricSeries } from './metrics';
+
+// Strategies that map rawTrend/rawVolatility onto the ranges physics expects:
+// trend in [-1, 1] and volatility in [0, 1]. Each strategy reads only the raw
+// fields and overwrites trend/volatility, so strategies can be swapped freely.
+
+export interface NormalizationOptions {
+  windowHours: number; // Trailing window for 'rolling'
+  trendScale: number; // |rawTrend| that maps to ±1 for 'fixed' (log slope per hour)
+  volScale: number; // rawVolatility that maps to 1 for 'fixed' (stddev per hour)
+}
+
+export const DEFAULT_NORMALIZATION_OPTIONS: NormalizationOptions = {
+  windowHours: 7 * 24,
+  trendScale: 0.002, // ~5% per day
+  volScale: 0.01, // 1% hourly moves
+};
+
+export interface NormalizationStrategy {
+  name: string;
+  description: string;
+  apply(allSeries: Map<string, MetricSeries[]>, options: NormalizationOptions): void;
+}
+
+const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, v));
+
+// z-scores are clamped at ±2 sigma: trend z=±2 -> ±1, volatility z=-2..+2 -> 0..1
+const Z_RANGE = 2;
+const trendFromZ = (z: number) => clamp(z / Z_RANGE, -1, 1);
+const volFromZ = (z: number) => clamp(0.5 + z / (2 * Z_RANGE), 0, 1);
+
+function meanStd(values: number[]): { mean: number; std: number } {
+  if (values.length === 0) return { mean: 0, std: 0 };
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  const variance = values.reduce((acc, v) => acc + (v - mean) ** 2, 0) / values.length;
+  return { mean, std: Math.sqrt(variance) };
+}
+
+// Linear interpolation between the closest ranks, q in [0, 1]
+function percentile(values: number[], q: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const pos = (sorted.length - 1) * q;
+  const base = Math.floor(pos);
+  const next = sorted[Math.min(base + 1, sorted.length - 1)];
+  return sorted[base] + (pos - base) * (next - sorted[base]);
+}
+
+// Percentile rank of each value within `values`: lowest 0, highest 1
+function percentileRanks(values: number[]): number[] {
+  const ranks = new Array<number>(values.length);
+  values
+    .map((v, i) => ({ v, i }))
+    .sort((a, b) => a.v - b.v)
+    .forEach((o, r) => { ranks[o.i] = values.length === 1 ? 0.5 : r / (values.length - 1); });
+  return ranks;
+}
+
+const globalPercentile: NormalizationStrategy = {
+  name: 'global-percentile',
+  description: 'Trend p5..p95 -> [-1, 1] and volatility 0..p95 -> [0, 1], pooled across all coins',
+  apply(allSeries) {
+    const all = Array.from(allSeries.values()).flat();
+    if (all.length === 0) return;
+
+    const trends = all.map(s => s.rawTrend);
+    const tMin = percentile(trends, 0.05);
+    const tMax = percentile(trends, 0.95);
+    // Volatility is never negative and 0 is calm, so only the top is clipped
+    const vMax = percentile(all.map(s => s.rawVolatility), 0.95);
+
+    console.log(`[Metrics] Global Normalization Bounds: Trend=[${tMin.toFixed(4)}, ${tMax.toFixed(4)}], VolMax=${vMax.toFixed(4)}`);
+
+    for (const s of all) {
+      s.trend = tMin === tMax ? 0 : ((clamp(s.rawTrend, tMin, tMax) - tMin) / (tMax - tMin)) * 2 - 1;
+      s.volatility = vMax === 0 ? 0 : clamp(s.rawVolatility, 0, vMax) / vMax;
+    }
+  },
+};
+
+// Each coin against its own history: a calm week for BTC still shows BTC's
+// own ups and downs instead of looking flat next to small caps.
+const perCoinZScore: NormalizationStrategy = {
+  name: 'zscore',
+  description: 'Per-coin z-score of trend and volatility',
+  apply(allSeries) {
+    for (const series of allSeries.values()) {
+      const t = meanStd(series.map(s => s.rawTrend));
+      const v = meanStd(series.map(s => s.rawVolatility));
+      // A series that never changes is calm, not average: volatility 0
+      for (const s of series) {
+        s.trend = t.std === 0 ? 0 : trendFromZ((s.rawTrend - t.mean) / t.std);
+        s.volatility = v.std === 0 ? 0 : volFromZ((s.rawVolatility - v.mean) / v.std);
+      }
+    }
+  },
+};
+
+// Position among the coins at each moment. Relies on all series sharing the
+// common time grid, so index i is the same timestamp for every coin.
+const rank: NormalizationStrategy = {
+  name: 'rank',
+  description: 'Cross-sectional rank at each timestamp: best trend = 1, worst = -1',
+  apply(allSeries) {
+    const all = Array.from(allSeries.values());
+    const length = Math.min(...all.map(s => s.length));
+    if (all.length === 0 || !isFinite(length)) return;
+
+    for (let i = 0; i < length; i++) {
+      const trendRanks = percentileRanks(all.map(s => s[i].rawTrend));
+      const volRanks = percentileRanks(all.map(s => s[i].rawVolatility));
+      all.forEach((series, c) => {
+        series[i].trend = trendRanks[c] * 2 - 1;
+        series[i].volatility = volRanks[c];
+      });
+    }
+  },
+};
+
+// Absolute thresholds, so a quiet market looks quiet and episodes are
+// comparable with each other.
+const fixed: NormalizationStrategy = {
+  name: 'fixed',
+  description: 'Fixed absolute scales (trendScale, volScale)',
+  apply(allSeries, options) {
+    for (const series of allSeries.values()) {
+      for (const s of series) {
+        s.trend = clamp(s.rawTrend / options.trendScale, -1, 1);
+        s.volatility = clamp(s.rawVolatility / options.volScale, 0, 1);
+      }
+    }
+  },
+};
+
+// Per-coin z-score against a trailing window only, so regime changes within
+// a long replay don't get flattened by the whole-range statistics.
+const rolling: NormalizationStrategy = {
+  name: 'rolling',
+  description: 'Per-coin z-score over a trailing window (windowHours)',
+  apply(allSeries, options) {
+    const windowMs = options.windowHours * 60 * 60 * 1000;
+    for (const series of allSeries.values()) {
+      let start = 0;
+      let sumT = 0, sumT2 = 0, sumV = 0, sumV2 = 0;
+
+      for (let i = 0; i < series.length; i++) {
+        const s = series[i];
+        sumT += s.rawTrend; sumT2 += s.rawTrend ** 2;
+        sumV += s.rawVolatility; sumV2 += s.rawVolatility ** 2;
+
+        while (series[start].timestamp < s.timestamp - windowMs) {
+          const old = series[start];
+          sumT -= old.rawTrend; sumT2 -= old.rawTrend ** 2;
+          sumV -= old.rawVolatility; sumV2 -= old.rawVolatility ** 2;
+          start++;
+        }
+
+        const n = i - start + 1;
+        const meanT = sumT / n;
+        const meanV = sumV / n;
+        const stdT = Math.sqrt(Math.max(0, sumT2 / n - meanT ** 2));
+        const stdV = Math.sqrt(Math.max(0, sumV2 / n - meanV ** 2));
+        s.trend = stdT < 1e-12 ? 0 : trendFromZ((s.rawTrend - meanT) / stdT);
+        s.volatility = stdV < 1e-12 ? 0 : volFromZ((s.rawVolatility - meanV) / stdV);
+      }
+    }
+  },
+};
+
+const strategies = new Map<string, NormalizationStrategy>(
+  [globalPercentile, perCoinZScore, rank, fixed, rolling].map(s => [s.name, s])
+);
+
+export function listNormalizationStrategies(): NormalizationStrategy[] {
+  return Array.from(strategies.values());
+}
+
+export function getNormalizationStrategy(name: string): NormalizationStrategy {
+  const strategy = strategies.get(name);
+  if (!strategy) {
+    throw new Error(`Unknown normalization strategy "${name}" (available: ${Array.from(strategies.keys()).join(', ')})`);
+  }
+  return strategy;
+}
@@ -1,19 +1,62 @@
 import Matter from 'matter-js';
 import { config } from './config';
+import { Arena, clampToArena, createArenaWalls, getWorldLayout, randomPointIn, WorldLayout } from './arena';
+import { computeSceneLayout, SceneLayout } from './layout';
+import { OTHER_SECTOR } from './universe';
+import { createRandom, Random } from './random';
+import { BehaviorProfile, DEFAULT_BEHAVIOR } from './behavior';
+import { EngineState, restoreEngine, serializeEngine } from './snapshot';
 
 export interface CoinBody {
   id: string; // Coin ID
   body: Matter.Body;
   radius: number;
   smoothedVol: number; // For smooth transition of hop behavior
+  trend: number; // Latest normalized trend input; drawn, not simulated (see coin-effects.ts)
   timeUntilNextHop: number; // Ms until next hop
   isHopping: boolean;
-  hopFrameCount: number;
+  hopTimeLeftMs: number; // Remaining time the hop force is applied
   hopForceMagnitude: number;
   hopAngle: number;
   isStunned: boolean;
+  arena: number; // Index into PhysicsWorld.arenas
+  phase: CoinPhase;
+  phaseMs: number; // Time spent in the current phase
+  opacity: number; // 0..1, animated while entering/exiting
 }
 
+// Coins spawn in ('entering'), live ('active'), then play an exit animation
+// ('exiting') before their body is removed (see lifecycle.ts)
+export type CoinPhase = 'entering' | 'active' | 'exiting';
+
+// Pairwise correlation snapshot for the current frame (see correlationAt in metrics.ts)
+export interface CorrelationFrame {
+  ids: string[];
+  matrix: Float32Array; // ids.length x ids.length, row-major
+}
+
+// What the market says at a given moment of simulation time
+export interface WorldInputs {
+  coinMetrics: Map<string, { trend: number, vol: number }>;
+  correlations?: CorrelationFrame;
+  active?: Set<string>; // Coins that should be on screen; all spawned coins when omitted
+}
+
+// Everything PhysicsWorld needs to resume mid-run (see snapshot.ts)
+export interface WorldSnapshot {
+  engine: EngineState;
+  random: number;
+  stepCount: number;
+  accumulatorMs: number;
+  interpolationAlpha: number;
+  previousPositions: [string, Matter.Vector][];
+  coins: Omit<CoinBody, 'body'>[]; // In coinBodies order, which is the order behaviors draw random numbers
+}
+
+// Behavior profiles were tuned with one update per 30 fps frame; per-frame
+// easing and hop durations are converted from this to the physics step.
+const REFERENCE_FRAME_MS = 1000 / 30;
+
 export class PhysicsWorld {
   engine: Matter.Engine;
   runner?: Matter.Runner; // Optional if we step manually
@@ -22,75 +65,58 @@ export class PhysicsWorld {
   coinBodies: Map<string, CoinBody> = new Map();
   collisionEvents: { type: 'coin' | 'wall', velocity: number }[] = [];
   
-  // Date slider margin
-  topMargin = 200; // UI area
-  
-  // Explicit box definition
-  readonly boxMargin = 60; // Side/Bottom margin
-  readonly boxTop = 380;   // Top of the box (Lowered for time bar)
-  // Box dimensions:
-  // x: boxMargin ... width - boxMargin
-  // y: boxTop ... boxTop + (width - 2*boxMargin) [Square]
-
-  // Physics tuning
-  readonly HOP_INTERVAL_MS = 4000; 
-  readonly FRICTION_AIR = 0.01; 
+  // Screen geometry shared with the renderer (see layout.ts).
+  // The world layout carves scene.box into one or more arenas (see arena.ts)
+  readonly scene: SceneLayout;
+  readonly layout: WorldLayout;
+  arenas: Arena[] = [];
+  private assignment = new Map<string, number>(); // coinId -> arena, for coins spawned later
+
+  // All randomness goes through here so a seed reproduces a render exactly
+  readonly random: Random;
+
+  // Fixed timestep, independent of the video frame rate
+  readonly STEP_MS: number;
+  private stepCount = 0;
+  private accumulatorMs = 0;
+  // Positions before the latest step, for interpolated rendering
+  private previousPositions = new Map<string, Matter.Vector>();
+  private interpolationAlpha = 1;
+
+  // Physics tuning (the per-run "feel" lives in the behavior profile)
+  readonly behavior: BehaviorProfile;
   readonly DENSITY_PER_RADIUS = 0.00005; // Density x Radius = Constant => Mass ~ r^3
-
-  constructor() {
-    this.width = config.width;
-    this.height = config.height;
+  // Acceleration between a perfectly correlated pair at correlation_strength=1.
+  // Gentle on purpose: a drift over seconds, not something that competes with hops.
+  readonly CORRELATION_ACCEL = 0.00002;
+
+  // Lifecycle animations (see spawnCoin / retireCoin)
+  readonly exitAnimation: 'fade' | 'eject';
+  readonly SPAWN_SCALE = 0.25; // Animated spawns start at this fraction of the base radius
+  readonly ENTER_MS = 600;
+  readonly EXIT_MS = 900;
+
+  constructor(
+    scene: SceneLayout = computeSceneLayout(config.width, config.height),
+    behavior: BehaviorProfile = DEFAULT_BEHAVIOR,
+    seed: number = config.seed
+  ) {
+    this.scene = scene;
+    this.behavior = behavior;
+    this.STEP_MS = 1000 / config.physicsHz;
+    this.width = scene.width;
+    this.height = scene.height;
+    this.random = createRandom(seed);
 
     this.engine = Matter.Engine.create();
-    this.engine.gravity.y = 0; 
-    
-    // Walls
-    const wallOptions = { isStatic: true, friction: 0.0, restitution: 0.0 }; 
-    const wallThickness = 100;
-    
-    // Square Box Logic
-    const boxInnerWidth = this.width - 2 * this.boxMargin;
-    const boxInnerHeight = boxInnerWidth; // Apply Square Constraint
-
-    // Explicit box walls
-    // Top Wall
-    const topWall = Matter.Bodies.rectangle(
-        this.width / 2, 
-        this.boxTop - wallThickness/2, 
-        this.width - 2 * this.boxMargin + wallThickness * 2, 
-        wallThickness, 
-        wallOptions
-    );
+    // Zero-g by default; with gravity on, trend becomes buoyancy (see applyBuoyancy)
+    this.engine.gravity.y = config.gravity;
+    this.layout = getWorldLayout(config.layout);
+    if (config.lifecycle.exitAnimation !== 'fade' && config.lifecycle.exitAnimation !== 'eject') {
+      throw new Error(`Unknown exit animation "${config.lifecycle.exitAnimation}" (available: fade, eject)`);
+    }
+    this.exitAnimation = config.lifecycle.exitAnimation;
     
-    // Bottom Wall (at boxTop + height)
-    const bottomWall = Matter.Bodies.rectangle(
-        this.width / 2, 
-        this.boxTop + boxInnerHeight + wallThickness/2, 
-        this.width - 2 * this.boxMargin + wallThickness * 2, 
-        wallThickness, 
-        wallOptions
-    );
-    
-    // Left Wall
-    const leftWall = Matter.Bodies.rectangle(
-        this.boxMargin - wallThickness/2, 
-        this.boxTop + boxInnerHeight / 2, 
-        wallThickness, 
-        boxInnerHeight + wallThickness * 2, 
-        wallOptions
-    );
-    
-    // Right Wall
-    const rightWall = Matter.Bodies.rectangle(
-        this.width - this.boxMargin + wallThickness/2, 
-        this.boxTop + boxInnerHeight / 2, 
-        wallThickness, 
-        boxInnerHeight + wallThickness * 2, 
-        wallOptions
-    );
-
-    Matter.World.add(this.engine.world, [topWall, bottomWall, leftWall, rightWall]);
-
     // Collision Detection for Audio
     Matter.Events.on(this.engine, 'collisionStart', (event) => {
         event.pairs.forEach(pair => {
@@ -133,90 +159,274 @@ export class PhysicsWorld {
       return events;
   }
 
-  setupCoins(ids: string[]) {
-    // Initial radius
-    const r0 = 42; 
+  // Arenas for every coin that may appear, then bodies for those on screen from
+  // the start (all by default). `sectors` is only used by layouts that group coins (split)
+  setupCoins(ids: string[], sectors: Map<string, string> = new Map(), initiallyActive: Iterable<string> = ids) {
+    const plan = this.layout.arrange(this.scene.box, ids.map(id => ({ id, sector: sectors.get(id) || OTHER_SECTOR })));
+    this.arenas = plan.arenas;
+    this.assignment = plan.assignment;
+    this.arenas.forEach(arena => Matter.World.add(this.engine.world, createArenaWalls(arena)));
+
+    for (const id of initiallyActive) this.spawnCoin(id, false);
+  }
+
+  // Adds a coin body. Animated spawns start small and transparent and grow in (see step)
+  spawnCoin(id: string, animate = true) {
+    // Initial radius, scaled from the reference 960px box
+    const r0 = this.behavior.radiusBase * this.scene.coinScale;
+    const r = animate ? r0 * this.SPAWN_SCALE : r0;
+    const arenaIndex = this.assignment.get(id) ?? 0;
+    const arena = this.arenas[arenaIndex];
+
+    // Rejection sampling for non-overlapping
+    let x = 0, y = 0;
+    let safe = false;
+    const buffer = r0 + 10;
+
+    let attempts = 0;
     
-    ids.forEach(id => {
-      // Rejection sampling for non-overlapping
-      let x = 0, y = 0;
-      let safe = false;
-      const buffer = r0 + 10;
-      const boxW = this.width - 2 * this.boxMargin;
-      const boxH = boxW; // Square
-
-      let attempts = 0;
+    while (!safe && attempts < 100) {
+      // Spawn inside the coin's arena
+      ({ x, y } = randomPointIn(arena, buffer, this.random));
       
-      while (!safe && attempts < 100) {
-        // Spawn inside the box
-        x = this.boxMargin + buffer + Math.random() * (boxW - 2 * buffer);
-        y = this.boxTop + buffer + Math.random() * (boxH - 2 * buffer);
-        
-        // Check overlap with existing
-        safe = true;
-        for (const cb of this.coinBodies.values()) {
-          const dx = x - cb.body.position.x;
-          const dy = y - cb.body.position.y;
-          const dist = Math.sqrt(dx*dx + dy*dy);
-          if (dist < (r0 + cb.radius)) {
-            safe = false;
-            break;
-          }
+      // Check overlap with existing
+      safe = true;
+      for (const cb of this.coinBodies.values()) {
+        const dx = x - cb.body.position.x;
+        const dy = y - cb.body.position.y;
+        const dist = Math.sqrt(dx*dx + dy*dy);
+        if (dist < (r0 + cb.radius)) {
+          safe = false;
+          break;
         }
-        attempts++;
       }
+      attempts++;
+    }
+
+    const body = Matter.Bodies.circle(x, y, r, {
+      restitution: this.behavior.restitution, // Super-elastic (> 1) for explosive rebounds
+      friction: 0.0,    
+      frictionAir: this.behavior.frictionAir, 
+      density: this.DENSITY_PER_RADIUS * r, // Mass ~ Volume (r^3)
+      label: id
+    });
+
+    // Randomized initial phase so they don't all jump at once
+    const initialTimer = this.random() * this.behavior.hopIntervalMaxMs;
+
+    this.coinBodies.set(id, { 
+        id, 
+        body, 
+        radius: r, 
+        smoothedVol: 0,
+        trend: 0,
+        timeUntilNextHop: initialTimer,
+        isHopping: false,
+        hopTimeLeftMs: 0,
+        hopForceMagnitude: 0,
+        hopAngle: 0,
+        isStunned: false,
+        arena: arenaIndex,
+        phase: animate ? 'entering' : 'active',
+        phaseMs: 0,
+        opacity: animate ? 0 : 1,
+    });
+    Matter.World.add(this.engine.world, body);
+  }
+
+  // Starts the exit animation; the body is removed once it finishes
+  retireCoin(id: string) {
+    const cb = this.coinBodies.get(id);
+    if (!cb || cb.phase === 'exiting') return;
+    cb.phase = 'exiting';
+    cb.phaseMs = 0;
+    cb.isHopping = false;
+
+    if (this.exitAnimation === 'eject') {
+      // Flies out of the top of the arena, through the wall and the other coins
+      cb.body.collisionFilter.mask = 0;
+      Matter.Body.setVelocity(cb.body, { x: (this.random() - 0.5) * 6, y: -this.behavior.maxVelocity * 1.5 });
+    }
+  }
 
-      const body = Matter.Bodies.circle(x, y, r0, {
-        restitution: 1.1, // Super-elastic for explosive rebounds
-        friction: 0.0,    
-        frictionAir: this.FRICTION_AIR, 
-        density: this.DENSITY_PER_RADIUS * r0, // Mass ~ Volume (r^3)
-        label: id
-      });
-
-      // Randomized initial phase so they don't all jump at once
-      const initialTimer = Math.random() * this.HOP_INTERVAL_MS;
-
-      this.coinBodies.set(id, { 
-          id, 
-          body, 
-          radius: r0, 
-          smoothedVol: 0,
-          timeUntilNextHop: initialTimer,
-          isHopping: false,
-          hopFrameCount: 0,
-          hopForceMagnitude: 0,
-          hopAngle: 0,
-          isStunned: false
-      });
-      Matter.World.add(this.engine.world, body);
+  private removeCoin(cb: CoinBody) {
+    Matter.World.remove(this.engine.world, cb.body);
+    this.coinBodies.delete(cb.id);
+    this.previousPositions.delete(cb.id);
+  }
+
+  // Spawns coins that became active and retires those that no longer are
+  private reconcileActive(active: Set<string>) {
+    active.forEach(id => {
+      if (!this.coinBodies.has(id)) this.spawnCoin(id);
+    });
+    this.coinBodies.forEach(cb => {
+      if (!active.has(cb.id)) this.retireCoin(cb.id);
     });
   }
 
-  // Called every frame
-  update(dtMs: number, coinMetrics: Map<string, { trend: number, vol: number }>) {
+  // Opacity and size for coins that are entering or leaving.
+  // Returns false when the coin is gone and skips the regular behaviors while exiting.
+  private animateLifecycle(cb: CoinBody, dtMs: number): boolean {
+    cb.phaseMs += dtMs;
+
+    if (cb.phase === 'entering') {
+      // The radius grows through the regular easing; this only fades in
+      cb.opacity = Math.min(1, cb.phaseMs / this.ENTER_MS);
+      if (cb.phaseMs >= this.ENTER_MS) cb.phase = 'active';
+      return true;
+    }
+    if (cb.phase !== 'exiting') return true;
+
+    const t = Math.min(1, cb.phaseMs / this.EXIT_MS);
+    cb.opacity = 1 - t;
+    if (this.exitAnimation === 'fade') {
+      // Shrink to a tenth of its size while fading
+      const newR = cb.radius * Math.pow(0.1, dtMs / this.EXIT_MS);
+      Matter.Body.scale(cb.body, newR / cb.radius, newR / cb.radius);
+      Matter.Body.setDensity(cb.body, this.DENSITY_PER_RADIUS * newR);
+      cb.radius = newR;
+    }
+    if (t >= 1) this.removeCoin(cb);
+    return false;
+  }
+
+  snapshot(): WorldSnapshot {
+    return {
+      engine: serializeEngine(this.engine),
+      random: this.random.state,
+      stepCount: this.stepCount,
+      accumulatorMs: this.accumulatorMs,
+      interpolationAlpha: this.interpolationAlpha,
+      previousPositions: Array.from(this.previousPositions.entries()).map(([id, p]) => [id, { x: p.x, y: p.y }]),
+      coins: Array.from(this.coinBodies.values()).map(({ body, ...state }) => state),
+    };
+  }
+
+  // Call after setupCoins(ids, sectors, []) so the arenas exist but no coins do
+  restore(snapshot: WorldSnapshot) {
+    const bodies = restoreEngine(this.engine, snapshot.engine);
+    this.coinBodies = new Map(snapshot.coins.map(state => [state.id, { ...state, body: bodies.get(state.id)! }]));
+    this.random.state = snapshot.random;
+    this.stepCount = snapshot.stepCount;
+    this.accumulatorMs = snapshot.accumulatorMs;
+    this.interpolationAlpha = snapshot.interpolationAlpha;
+    this.previousPositions = new Map(snapshot.previousPositions);
+  }
+
+  // Correlated coins pull towards each other, anti-correlated ones push apart.
+  // Correlations within ±threshold are treated as noise and ignored.
+  applyCorrelationForces(correlations: CorrelationFrame) {
+    const strength = config.correlationStrength * this.CORRELATION_ACCEL;
+    const threshold = config.correlationThreshold;
+    if (strength === 0) return;
+
+    const { ids, matrix } = correlations;
+    const n = ids.length;
+
+    for (let a = 0; a < n; a++) {
+      const cbA = this.coinBodies.get(ids[a]);
+      if (!cbA || cbA.phase === 'exiting') continue;
+
+      for (let b = a + 1; b < n; b++) {
+        const cbB = this.coinBodies.get(ids[b]);
+        // Coins in different arenas can't reach each other
+        if (!cbB || cbB.arena !== cbA.arena || cbB.phase === 'exiting') continue;
+
+        // Float error can push a Pearson value just past ±1
+        const c = Math.max(-1, Math.min(1, matrix[a * n + b]));
+        if (Math.abs(c) <= threshold) continue;
+        // Rescale the part beyond the dead zone back to [-1, 1]
+        const effective = Math.sign(c) * (Math.abs(c) - threshold) / (1 - threshold);
+
+        const delta = Matter.Vector.sub(cbB.body.position, cbA.body.position);
+        const dist = Matter.Vector.magnitude(delta);
+        // Touching pairs are already as close as they can get
+        if (dist < 1 || (effective > 0 && dist < cbA.radius + cbB.radius + 5)) continue;
+        const dir = Matter.Vector.div(delta, dist);
+
+        // Force ~ mass so both coins accelerate equally regardless of size
+        const accel = strength * effective;
+        Matter.Body.applyForce(cbA.body, cbA.body.position, Matter.Vector.mult(dir, accel * cbA.body.mass));
+        Matter.Body.applyForce(cbB.body, cbB.body.position, Matter.Vector.mult(dir, -accel * cbB.body.mass));
+      }
+    }
+  }
+
+  // Counteracts gravity by (1 + trend): flat coins hover, rising coins float
+  // up and falling coins sink, all at up to the engine's gravity.
+  applyBuoyancy(cb: CoinBody, trend: number) {
+    const { y, scale } = this.engine.gravity;
+    const lift = cb.body.mass * y * scale * (1 + trend);
+    Matter.Body.applyForce(cb.body, cb.body.position, { x: 0, y: -lift });
+  }
+
+  get simTimeMs(): number {
+    return this.stepCount * this.STEP_MS;
+  }
+
+  // Called every video frame: runs as many fixed steps as fit into frameMs.
+  // Inputs are sampled at each step's own simulation time, so the sequence of
+  // states is the same at 24, 30 or 60 fps; only which states get drawn differs.
+  advance(frameMs: number, inputsAt: (simTimeMs: number) => WorldInputs) {
+    this.accumulatorMs += frameMs;
+    // Small tolerance so float rounding (3 x 16.67 vs 50) can't drop a step
+    while (this.accumulatorMs >= this.STEP_MS - 1e-6) {
+      this.coinBodies.forEach(cb => this.previousPositions.set(cb.id, { ...cb.body.position }));
+      const { coinMetrics, correlations, active } = inputsAt(this.simTimeMs);
+      if (active) this.reconcileActive(active);
+      this.step(coinMetrics, correlations);
+      this.stepCount++;
+      this.accumulatorMs -= this.STEP_MS;
+    }
+    this.interpolationAlpha = Math.max(0, Math.min(1, this.accumulatorMs / this.STEP_MS));
+  }
+
+  // Where to draw a coin: between the last two physics states
+  renderPosition(cb: CoinBody): Matter.Vector {
+    const prev = this.previousPositions.get(cb.id);
+    const pos = cb.body.position;
+    if (!prev) return pos;
+    const a = this.interpolationAlpha;
+    return { x: prev.x + (pos.x - prev.x) * a, y: prev.y + (pos.y - prev.y) * a };
+  }
+
+  // One fixed physics step
+  step(
+    coinMetrics: Map<string, { trend: number, vol: number }>,
+    correlations?: CorrelationFrame
+  ) {
+    const dtMs = this.STEP_MS;
+
     // 1. Update physics
     Matter.Engine.update(this.engine, dtMs);
 
+    // Pairwise market-structure forces, integrated on the next step like the hop forces
+    if (correlations) {
+      this.applyCorrelationForces(correlations);
+    }
+
     // 2. Apply behaviors
-    const r_min = 20;
-    const r_max = 130;
-    const r0 = 42;
-    const k_trend = 2.5;
-    const radius_follow_alpha = 0.05; 
-    
-    // Hop parameters
-    const vol_follow_alpha = 0.02;
+    const b = this.behavior;
+    const r_min = b.radiusMin * this.scene.coinScale;
+    const r_max = b.radiusMax * this.scene.coinScale;
+    const r0 = b.radiusBase * this.scene.coinScale;
+    // Per-frame easing from the profile, converted to this step length
+    const frames = dtMs / REFERENCE_FRAME_MS;
+    const radiusFollowAlpha = 1 - Math.pow(1 - b.radiusFollowAlpha, frames);
+    const volFollowAlpha = 1 - Math.pow(1 - b.volFollowAlpha, frames);
 
     this.coinBodies.forEach(cb => {
+      if (!this.animateLifecycle(cb, dtMs)) return;
       const metrics = coinMetrics.get(cb.id);
       if (!metrics) return;
 
       const { trend, vol } = metrics; 
+      cb.trend = trend;
 
       // A. Target Radius
-      const r_target = Math.max(r_min, Math.min(r_max, r0 * (1 + k_trend * trend)));
-      const newR = cb.radius + (r_target - cb.radius) * radius_follow_alpha;
+      const r_target = Math.max(r_min, Math.min(r_max, r0 * (1 + b.trendGain * trend)));
+      const newR = cb.radius + (r_target - cb.radius) * radiusFollowAlpha;
       
       if (Math.abs(newR - cb.radius) > 0.1) {
         const scaleFactor = newR / cb.radius;
@@ -226,21 +436,23 @@ export class PhysicsWorld {
         Matter.Body.setDensity(cb.body, this.DENSITY_PER_RADIUS * newR);
       }
 
+      if (this.engine.gravity.y !== 0) {
+        this.applyBuoyancy(cb, trend);
+      }
+
       // B. Smoothed Volatility
-      cb.smoothedVol = cb.smoothedVol + (vol - cb.smoothedVol) * vol_follow_alpha;
+      cb.smoothedVol = cb.smoothedVol + (vol - cb.smoothedVol) * volFollowAlpha;
       const effectiveVol = cb.smoothedVol;
 
       // C. Periodic Hop
-      // Logic: Wait for interval -> Start hopping -> Apply force for N frames -> Stop applying -> Decelerate (friction)
+      // Logic: Wait for interval -> Start hopping -> Apply force for hopFrames (30 fps frames) -> Stop applying -> Decelerate (friction)
       
       // Calculate speed for Stun mechanic
       const currentSpeed = Matter.Vector.magnitude(cb.body.velocity);
-      const STUN_VELOCITY = 15.0; // If faster than this, get stunned
-      const RECOVERY_VELOCITY = 1.0; // If slower than this, recover
 
       // Stun Logic
       if (cb.isStunned) {
-          if (currentSpeed < RECOVERY_VELOCITY) {
+          if (currentSpeed < b.recoveryVelocity) {
               cb.isStunned = false; // Recovered
           } else {
               // Still stunned, skip hopping
@@ -249,7 +461,7 @@ export class PhysicsWorld {
           }
       } else {
           // Check if we should be stunned
-          if (currentSpeed > STUN_VELOCITY) {
+          if (currentSpeed > b.stunVelocity) {
               cb.isStunned = true;
               cb.isHopping = false;
               return;
@@ -260,35 +472,33 @@ export class PhysicsWorld {
       // High Sharpe = Stable Growth (Trend > 0, Vol Low) -> Strong Hop, Long Interval
       // Low Sharpe = Unstable/Decline (Trend < 0 or Trend~0, Vol High) -> Weak Hop, Short Interval
       // Vol is normalized [0,1], Trend is normalized [-1,1].
-      // We add epsilon to Vol to avoid division by zero.
-      const safeVol = effectiveVol + 0.1;
+      // We add a floor to Vol to avoid division by zero.
+      const safeVol = effectiveVol + b.sharpeVolFloor;
       const sharpeRatio = trend / safeVol; 
       
       // Map Sharpe to [0, 1] range for interpolation.
-      // Range estimation: 
-      // Max: 1 / 0.1 = 10.
-      // Min: -1 / 0.1 = -10.
-      // Clamp to [-5, 5] to avoid extremes.
-      const clampedSharpe = Math.max(-5, Math.min(5, sharpeRatio));
-      const normSharpe = (clampedSharpe + 5) / 10; // 0.0 to 1.0
+      // Range estimation (default floor 0.1): -10 .. 10.
+      // Clamp to ±sharpeClamp (default 5) to avoid extremes.
+      const clampedSharpe = Math.max(-b.sharpeClamp, Math.min(b.sharpeClamp, sharpeRatio));
+      const normSharpe = (clampedSharpe + b.sharpeClamp) / (2 * b.sharpeClamp); // 0.0 to 1.0
 
       if (cb.isHopping) {
           // Continue applying force
-          if (cb.hopFrameCount > 0) {
+          if (cb.hopTimeLeftMs > 0) {
               const strength = cb.hopForceMagnitude;
               const force = { 
                   x: Math.cos(cb.hopAngle) * strength, 
                   y: Math.sin(cb.hopAngle) * strength 
               };
               Matter.Body.applyForce(cb.body, cb.body.position, force);
-              cb.hopFrameCount--;
+              cb.hopTimeLeftMs -= dtMs;
           } else {
               // Finished this hop
               cb.isHopping = false;
               // Determine next interval based on Sharpe
-              // Sharpe High -> Long Interval (max 4000)
-              // Sharpe Low -> Extremely Short Interval (min 150 - nervous twitching)
-              cb.timeUntilNextHop = 150 + 3850 * normSharpe;
+              // Sharpe High -> Long Interval (hopIntervalMaxMs)
+              // Sharpe Low -> Extremely Short Interval (hopIntervalMinMs - nervous twitching)
+              cb.timeUntilNextHop = b.hopIntervalMinMs + (b.hopIntervalMaxMs - b.hopIntervalMinMs) * normSharpe;
           }
       } else {
           // Countdown to next hop
@@ -297,59 +507,47 @@ export class PhysicsWorld {
           if (cb.timeUntilNextHop <= 0) {
             // Start Hop
             cb.isHopping = true;
-            cb.hopFrameCount = 5; 
+            cb.hopTimeLeftMs = b.hopFrames * REFERENCE_FRAME_MS; 
             
             // Calculate Force based on Sharpe
-            // Sharpe High -> Strong Hop (3.0x)
-            // Sharpe Low -> Weak Hop (0.05x - barely moving)
+            // Sharpe High -> Strong Hop (hopForceMax, default 3.0x)
+            // Sharpe Low -> Weak Hop (hopForceMin, default 0.05x - barely moving)
             
             // Base scaling (3D Mass: Force ~ Area => Accel ~ 1/r)
-            const force_per_area = 0.0002; 
-            
-            // Factor from Sharpe: 0.05x (Weak) to 3.0x (Strong)
-            const sharpeForceFactor = 0.05 + 2.95 * normSharpe;
+            const sharpeForceFactor = b.hopForceMin + (b.hopForceMax - b.hopForceMin) * normSharpe;
 
-            const totalStrength = (cb.radius * cb.radius) * force_per_area * sharpeForceFactor;
+            const totalStrength = (cb.radius * cb.radius) * b.hopForcePerArea * sharpeForceFactor;
             cb.hopForceMagnitude = totalStrength;
             
             // Random direction
-            cb.hopAngle = Math.random() * 2 * Math.PI;
+            cb.hopAngle = this.random() * 2 * Math.PI;
           }
       }
       
       // Cap velocity strictly
-      const v_max = 12; // Reduced from 30
+      const v_max = b.maxVelocity;
       const speed = Matter.Vector.magnitude(cb.body.velocity);
       if (speed > v_max) {
         Matter.Body.setVelocity(cb.body, Matter.Vector.mult(Matter.Vector.normalise(cb.body.velocity), v_max));
       }
+    });
 
-      // STRICT BOUNDARY CHECK
-      // If coin tunnels through wall, put it back.
-      const buffer = cb.radius + 5;
-      const minX = this.boxMargin + buffer;
-      const maxX = this.width - this.boxMargin - buffer;
-      const minY = this.boxTop + buffer;
-      // Square box max Y
-      const boxHeight = (this.width - 2 * this.boxMargin);
-      const maxY = this.boxTop + boxHeight - buffer;
-      
-      const pos = cb.body.position;
-      let clampedX = pos.x;
-      let clampedY = pos.y;
-      let clamped = false;
+    // 3. Strict boundary check, for every coin (stunned ones skip the behaviors above).
+    // Ejected coins are on their way out and must not be caught.
+    this.coinBodies.forEach(cb => {
+      if (cb.phase !== 'exiting') this.keepInArena(cb);
+    });
+  }
 
-      if (pos.x < minX) { clampedX = minX; clamped = true; }
-      else if (pos.x > maxX) { clampedX = maxX; clamped = true; }
-      
-      if (pos.y < minY) { clampedY = minY; clamped = true; }
-      else if (pos.y > maxY) { clampedY = maxY; clamped = true; }
+  // If coin tunnels through wall, put it back.
+  keepInArena(cb: CoinBody) {
+    const buffer = cb.radius + 5;
+    const clamped = clampToArena(this.arenas[cb.arena], cb.body.position, buffer);
 
-      if (clamped) {
-          Matter.Body.setPosition(cb.body, { x: clampedX, y: clampedY });
-          // Kill velocity if we hit hard wall to prevent glitching
-          Matter.Body.setVelocity(cb.body, { x: cb.body.velocity.x * 0.5, y: cb.body.velocity.y * 0.5 });
-      }
-    });
+    if (clamped) {
+        Matter.Body.setPosition(cb.body, clamped);
+        // Kill velocity if we hit hard wall to prevent glitching
+        Matter.Body.setVelocity(cb.body, { x: cb.body.velocity.x * 0.5, y: cb.body.velocity.y * 0.5 });
+    }
   }
 }
@@ -0,0 +1,67 @@
+import { Config } from './config';
+import { CoinGeckoProvider } from './coingecko';
+import { ReplayProvider } from './replay';
+import { BinanceProvider } from './binance';
+import { HistoryProvider, HistoryStore } from './history';
+import { CoinSelection } from './universe';
+
+export interface CoinData {
+  id: string;
+  symbol: string;
+  name: string;
+  image: string;
+  categories?: string[]; // Only needed by sources that can't filter categories server-side
+  circulatingSupply?: number; // Used to estimate past market caps for --rerank
+}
+
+export interface Candle {
+  timestamp: number; // Candle open time
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number; // Base asset volume
+}
+
+export interface MarketChartData {
+  prices: [number, number][]; // [timestamp, price]
+  candles?: Candle[]; // Present for kline sources; prices[i] is then [candles[i].timestamp, candles[i].close]
+}
+
+// Anything that can supply the coin universe and per-coin price history.
+// main() only talks to this interface, so the video can be built from the
+// live API or from files on disk without touching the rest of the pipeline.
+export interface MarketDataProvider {
+  readonly name: string;
+  // Identifies the kind of series returned (source, currency, granularity) so
+  // stored history from different sources never gets mixed.
+  readonly seriesKey: string;
+  // For sources whose sampling depends on the requested window: a label for
+  // the granularity `days` returns, so the history store keys series by it.
+  granularity?(days: number): string;
+  fetchTopCoins(selection: CoinSelection): Promise<CoinData[]>;
+  fetchMarketChart(coinId: string, days: number): Promise<MarketChartData>;
+}
+
+export function createMarketDataProvider(config: Config): MarketDataProvider {
+  const provider = createSourceProvider(config);
+  // Replays are already local, there is nothing to accumulate
+  if (!config.history || config.provider === 'replay') return provider;
+  return new HistoryProvider(provider, new HistoryStore(config.historyDir), config.historyMinFetchDays);
+}
+
+function createSourceProvider(config: Config): MarketDataProvider {
+  switch (config.provider) {
+    case 'coingecko':
+      return new CoinGeckoProvider();
+    case 'replay':
+      return new ReplayProvider(config.replayDir);
+    case 'binance':
+      if (config.universeProvider === 'binance') {
+        throw new Error('The binance provider needs a different --universe_provider for the coin list');
+      }
+      return new BinanceProvider(createSourceProvider({ ...config, provider: config.universeProvider }));
+    default:
+      throw new Error(`Unknown market data provider: ${config.provider}`);
+  }
+}
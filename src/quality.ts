@@ -0,0 +1,236 @@
+import { Candle, MarketChartData } from './provider';
+
+export const FILL_STRATEGIES = ['previous', 'linear', 'none'] as const;
+export type FillStrategy = typeof FILL_STRATEGIES[number];
+
+export interface QualityOptions {
+  fill: FillStrategy;
+  maxGapHours: number; // Longest tolerated hole in the raw data (at least three steps of the series)
+  maxMissingRatio: number; // Share of grid points that may be filled in
+  outlierZ: number; // Robust z-score above which a one-point spike is discarded
+  minPoints: number;
+}
+
+export interface QualityGap {
+  start: number;
+  end: number;
+  hours: number;
+}
+
+// Structured per-coin report, written to output/data-quality.json by main().
+export interface QualityReport {
+  coinId: string;
+  rawPoints: number;
+  validPoints: number;
+  stepMs: number; // Inferred native spacing of the series
+  nonMonotonic: number;
+  duplicates: number;
+  nonPositive: number; // Zero, negative, NaN or Infinity prices
+  outliers: number[]; // Timestamps of discarded spikes
+  gaps: QualityGap[];
+  filledPoints: number;
+  missingRatio: number;
+  passed: boolean;
+  reason?: string;
+}
+
+interface Sample {
+  timestamp: number;
+  price: number;
+  candle?: Candle;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+// Indices of single-point spikes: a large move immediately reversed by a large
+// opposite move. Genuine crashes or pumps that persist are left alone.
+function findSpikes(samples: Sample[], threshold: number): Set<number> {
+  const spikes = new Set<number>();
+  if (samples.length < 3) return spikes;
+
+  const returns: number[] = [];
+  for (let i = 1; i < samples.length; i++) {
+    returns.push(Math.log(samples[i].price / samples[i - 1].price));
+  }
+
+  const m = median(returns);
+  const mad = median(returns.map(r => Math.abs(r - m)));
+  if (mad === 0) return spikes;
+
+  // 0.6745 scales MAD to the standard deviation of a normal distribution
+  const z = returns.map(r => (0.6745 * (r - m)) / mad);
+  for (let i = 0; i < z.length - 1; i++) {
+    // z[i] is the move into samples[i + 1], z[i + 1] the move out of it
+    if (Math.abs(z[i]) > threshold && Math.abs(z[i + 1]) > threshold && Math.sign(z[i]) !== Math.sign(z[i + 1])) {
+      spikes.add(i + 1);
+    }
+  }
+  return spikes;
+}
+
+function fillSample(prev: Sample, next: Sample | undefined, timestamp: number, fill: FillStrategy): Sample {
+  let price = prev.price;
+  if (fill === 'linear' && next) {
+    const ratio = (timestamp - prev.timestamp) / (next.timestamp - prev.timestamp);
+    price = prev.price + (next.price - prev.price) * ratio;
+  }
+  const sample: Sample = { timestamp, price };
+  if (prev.candle) {
+    // Synthetic candle: no range and no volume traded
+    sample.candle = { timestamp, open: price, high: price, low: price, close: price, volume: 0 };
+  }
+  return sample;
+}
+
+// Places the samples on a uniform grid starting at the first sample. Grid
+// points without a sample within half a step are filled according to `fill`.
+function resampleUniform(samples: Sample[], stepMs: number, fill: FillStrategy): { samples: Sample[]; filled: number } {
+  const start = samples[0].timestamp;
+  const end = samples[samples.length - 1].timestamp;
+  const out: Sample[] = [];
+  let filled = 0;
+  let j = 0;
+
+  for (let t = start; t <= end + stepMs / 2; t += stepMs) {
+    while (j < samples.length - 1 && samples[j + 1].timestamp <= t + stepMs / 2) j++;
+    const current = samples[j];
+
+    if (Math.abs(current.timestamp - t) <= stepMs / 2) {
+      // Snap the real sample onto the grid
+      out.push({ ...current, timestamp: t, candle: current.candle && { ...current.candle, timestamp: t } });
+    } else {
+      // Inside a gap: `current` is the last sample before it, the next one after it
+      out.push(fillSample(current, samples[j + 1], t, fill));
+      filled++;
+    }
+  }
+  return { samples: out, filled };
+}
+
+// Validates and repairs one coin's series. Returns null data when the series
+// fails the thresholds; the report says why.
+export function validateSeries(
+  coinId: string,
+  data: MarketChartData,
+  options: QualityOptions
+): { data: MarketChartData | null; report: QualityReport } {
+  const report: QualityReport = {
+    coinId,
+    rawPoints: data.prices.length,
+    validPoints: 0,
+    stepMs: 0,
+    nonMonotonic: 0,
+    duplicates: 0,
+    nonPositive: 0,
+    outliers: [],
+    gaps: [],
+    filledPoints: 0,
+    missingRatio: 0,
+    passed: false,
+  };
+
+  const fail = (reason: string) => {
+    report.reason = reason;
+    return { data: null, report };
+  };
+
+  // 1. Order, positivity, duplicates
+  let samples: Sample[] = data.prices.map(([timestamp, price], i) => ({
+    timestamp,
+    price,
+    candle: data.candles?.[i],
+  }));
+
+  for (let i = 1; i < samples.length; i++) {
+    if (samples[i].timestamp < samples[i - 1].timestamp) report.nonMonotonic++;
+  }
+
+  samples = samples.filter(s => {
+    const ok = Number.isFinite(s.timestamp) && Number.isFinite(s.price) && s.price > 0;
+    if (!ok) report.nonPositive++;
+    return ok;
+  });
+
+  // Stable sort, then keep the last sample of each timestamp
+  samples.sort((a, b) => a.timestamp - b.timestamp);
+  const deduped: Sample[] = [];
+  for (const s of samples) {
+    if (deduped.length > 0 && deduped[deduped.length - 1].timestamp === s.timestamp) {
+      deduped[deduped.length - 1] = s;
+      report.duplicates++;
+    } else {
+      deduped.push(s);
+    }
+  }
+  samples = deduped;
+
+  if (samples.length < options.minPoints) {
+    return fail(`only ${samples.length} usable points (minimum ${options.minPoints})`);
+  }
+
+  // 2. Spikes
+  const spikes = findSpikes(samples, options.outlierZ);
+  report.outliers = Array.from(spikes).map(i => samples[i].timestamp);
+  samples = samples.filter((_, i) => !spikes.has(i));
+  report.validPoints = samples.length;
+
+  // 3. Gaps, measured against the series' typical spacing
+  const diffs: number[] = [];
+  for (let i = 1; i < samples.length; i++) diffs.push(samples[i].timestamp - samples[i - 1].timestamp);
+  report.stepMs = median(diffs);
+
+  for (let i = 1; i < samples.length; i++) {
+    if (diffs[i - 1] > report.stepMs * 1.5) {
+      report.gaps.push({
+        start: samples[i - 1].timestamp,
+        end: samples[i].timestamp,
+        hours: diffs[i - 1] / (60 * 60 * 1000),
+      });
+    }
+  }
+
+  // Scaled with the spacing: on daily data one missing point is already a 48h
+  // hole, so a fixed hour limit would reject any coarse series with a single miss
+  const maxGapHours = Math.max(options.maxGapHours, (3 * report.stepMs) / (60 * 60 * 1000));
+  const longestGap = report.gaps.reduce((max, g) => Math.max(max, g.hours), 0);
+  if (longestGap > maxGapHours) {
+    return fail(`gap of ${longestGap.toFixed(1)}h exceeds ${maxGapHours.toFixed(0)}h`);
+  }
+
+  // 4. Repair onto a uniform grid
+  if (options.fill !== 'none' && report.stepMs > 0) {
+    const resampled = resampleUniform(samples, report.stepMs, options.fill);
+    samples = resampled.samples;
+    report.filledPoints = resampled.filled;
+    report.missingRatio = resampled.filled / samples.length;
+    if (report.missingRatio > options.maxMissingRatio) {
+      return fail(`${(report.missingRatio * 100).toFixed(1)}% of points missing (max ${(options.maxMissingRatio * 100).toFixed(0)}%)`);
+    }
+  }
+
+  report.passed = true;
+  const repaired: MarketChartData = {
+    prices: samples.map(s => [s.timestamp, s.price] as [number, number]),
+  };
+  if (data.candles) {
+    repaired.candles = samples.map(s => s.candle!);
+  }
+  return { data: repaired, report };
+}
+
+export function summarizeReport(report: QualityReport): string {
+  const issues: string[] = [];
+  if (report.nonMonotonic) issues.push(`${report.nonMonotonic} out-of-order`);
+  if (report.duplicates) issues.push(`${report.duplicates} duplicates`);
+  if (report.nonPositive) issues.push(`${report.nonPositive} non-positive`);
+  if (report.outliers.length) issues.push(`${report.outliers.length} spikes`);
+  if (report.gaps.length) issues.push(`${report.gaps.length} gaps`);
+  if (report.filledPoints) issues.push(`${report.filledPoints} filled`);
+  const detail = issues.length > 0 ? issues.join(', ') : 'clean';
+  return report.passed ? `OK (${detail})` : `DROPPED: ${report.reason} (${detail})`;
+}
@@ -0,0 +1,38 @@
+// Seeded PRNG for everything that shapes the picture (spawn positions, hop
+// timing and direction). Same data + same seed => identical frames.
+// Network jitter (http.ts) deliberately keeps using Math.random.
+
+export interface Random {
+  (): number; // Uniform in [0, 1), like Math.random
+  state: number; // Read to snapshot the sequence, assign to resume it (see snapshot.ts)
+}
+
+// mulberry32: tiny, fast and good enough for visuals. Not for cryptography.
+export function createRandom(seed: number): Random {
+  const random = (() => {
+    random.state = (random.state + 0x6d2b79f5) >>> 0;
+    let t = random.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }) as Random;
+  random.state = seed >>> 0;
+  return random;
+}
+
+// Accepts numbers and arbitrary strings ("episode-42") as seeds
+export function parseSeed(value: unknown): number {
+  if (value === undefined || value === null || value === '') {
+    return Math.floor(Math.random() * 4294967296);
+  }
+  const text = String(value);
+  if (/^\d+$/.test(text)) return Number(text) >>> 0;
+
+  // FNV-1a
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
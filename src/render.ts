@@ -1,26 +1,76 @@
-import { createCanvas, Canvas, CanvasRenderingContext2D, Image, loadImage } from 'canvas';
+import { createCanvas, Canvas, CanvasRenderingContext2D, Image, loadImage, registerFont } from 'canvas';
 import { config } from './config';
 import { PhysicsWorld } from './physics';
 import { MetricSeries } from './metrics';
+import { computeSceneLayout, SceneLayout } from './layout';
+import { MarketEvent } from './events';
+import { DEFAULT_THEME, Theme } from './theme';
+import { formatMessage, formatPercent, getLocale, Locale } from './i18n';
+import { roundRectPath, Widget, WidgetFrame } from './widgets';
+import { createWidgets, DEFAULT_WIDGET_LAYOUT, WidgetLayout } from './widget-layout';
+import { COIN_EFFECTS, CoinEffect, CoinEffects, CoinEffectsSnapshot } from './coin-effects';
+
+// CSS generic families must stay unquoted, everything else is quoted
+const GENERIC_FAMILIES = new Set(['serif', 'sans-serif', 'monospace', 'cursive', 'fantasy']);
+
+// Frame-to-frame state, for simulation snapshots (see snapshot.ts)
+export interface RendererSnapshot {
+  callouts: { event: MarketEvent; startFrame: number }[];
+  widgets: Record<string, unknown>; // By widget id
+  coinEffects: CoinEffectsSnapshot;
+}
 
 export class Renderer {
   canvas: Canvas;
   ctx: CanvasRenderingContext2D;
   width: number;
   height: number;
+  scene: SceneLayout; // Same geometry the physics world uses
+  readonly theme: Theme;
+  readonly locale: Locale;
+  private fallbackFamilies: string[] = []; // Locale fonts, tried after the theme family
+  readonly widgets: Widget[]; // Sorted by z (see widget-layout.ts)
+  private readonly coinEffects: CoinEffects;
   coinImages: Map<string, Image> = new Map();
   coinSymbols: Map<string, string> = new Map();
   medalImages: Map<string, Image> = new Map();
-
-  // Smoothing state for Chart Y-axis
-  private smoothMinVal: number | null = null;
-  private smoothMaxVal: number | null = null;
-
-  constructor() {
-    this.width = config.width;
-    this.height = config.height;
+  private backgroundImage?: Image;
+  private logoImage?: Image;
+
+  // Event callouts currently on screen (see events.ts)
+  private callouts: { event: MarketEvent; startFrame: number }[] = [];
+  readonly CALLOUT_FRAMES = Math.round(2.5 * config.fps);
+  readonly MAX_CALLOUTS = 3;
+
+  constructor(
+    scene: SceneLayout = computeSceneLayout(config.width, config.height),
+    theme: Theme = DEFAULT_THEME,
+    locale: Locale = getLocale('en'),
+    widgetLayout: WidgetLayout = DEFAULT_WIDGET_LAYOUT,
+    coinEffects: Set<CoinEffect> = new Set(COIN_EFFECTS)
+  ) {
+    this.scene = scene;
+    this.theme = theme;
+    this.locale = locale;
+    this.width = scene.width;
+    this.height = scene.height;
+    // node-canvas only picks up fonts registered before the canvas is created
+    theme.fonts.files.forEach(file => registerFont(file.path, { family: file.family, weight: file.weight, style: file.style }));
+    locale.fonts.forEach(file => registerFont(file.path, { family: file.family, weight: file.weight, style: file.style }));
+    this.fallbackFamilies = Array.from(new Set(locale.fonts.map(f => f.family)));
     this.canvas = createCanvas(this.width, this.height);
     this.ctx = this.canvas.getContext('2d');
+
+    this.widgets = createWidgets(widgetLayout, {
+      scene,
+      theme,
+      locale,
+      coinImages: this.coinImages,
+      coinSymbols: this.coinSymbols,
+      medalImages: this.medalImages,
+      font: (size, weight, family) => this.font(size, weight, family),
+    });
+    this.coinEffects = new CoinEffects(coinEffects, theme, scene.scale);
   }
 
   async loadAssets(coins: { id: string; image: string; symbol: string }[]) {
@@ -43,6 +93,20 @@ export class Renderer {
     } catch (err) {
         console.error('Failed to load medal images:', err);
     }
+
+    // Theme images (paths were checked when the theme was loaded)
+    if (this.theme.background.image) this.backgroundImage = await loadImage(this.theme.background.image);
+    if (this.theme.logo) this.logoImage = await loadImage(this.theme.logo.image);
+  }
+
+  // CSS font shorthand in the theme's family, then the locale fonts; a generic
+  // family goes last since it matches everything
+  private font(size: number, weight = 'bold', family = this.theme.fonts.family): string {
+    const families = GENERIC_FAMILIES.has(family)
+      ? [...this.fallbackFamilies, family]
+      : [family, ...this.fallbackFamilies];
+    const quoted = families.map(f => (GENERIC_FAMILIES.has(f) ? f : `"${f}"`));
+    return `${weight} ${Math.round(size)}px ${quoted.join(', ')}`;
   }
 
   renderFrame(
@@ -53,48 +117,76 @@ export class Renderer {
     frameIndex: number,
     coinMetrics?: Map<string, MetricSeries[]>
   ) {
-    const { ctx, width, height } = this;
+    const { ctx } = this;
+    const { scale } = this.scene;
+    const { colors } = this.theme;
+
+    // Widgets only show coins that are on screen (see lifecycle.ts)
+    const frame: WidgetFrame = {
+      ctx,
+      world,
+      metrics: new Map(Array.from(coinMetrics || []).filter(([id]) => world.coinBodies.has(id))),
+      time: currentDate,
+      start: startDate,
+      end: endDate,
+      frameIndex,
+    };
     
     // 1. Background
-    const gradient = ctx.createLinearGradient(0, 0, 0, height);
-    gradient.addColorStop(0, '#1a1a2e');
-    gradient.addColorStop(1, '#16213e');
-    ctx.fillStyle = gradient;
-    ctx.fillRect(0, 0, width, height);
-
-    // 2. Header
-    if (coinMetrics) {
-        this.drawHeader(ctx, coinMetrics, currentDate);
-    }
+    this.drawBackground(ctx);
 
-    // 2. Date Slider & Header (Removed)
-    // this.drawDateSlider(ctx, currentDate, startDate, endDate, 280);
+    // 2. Widgets behind the world
+    this.drawWidgets(frame, w => w.z < 0);
 
-    // 3. Draw Explicit Box
-    // Physics: boxMargin = 60, boxTop = 400
-    // Physics: boxMargin = 60, boxTop = 280
-    const boxMargin = 60;
-    const boxTop = 380;
-    const boxInnerWidth = width - 2 * boxMargin;
-    const boxHeight = boxInnerWidth; // Square
-    
-    ctx.strokeStyle = 'rgba(255, 255, 255, 0.3)';
-    ctx.lineWidth = 4;
-    ctx.strokeRect(boxMargin, boxTop, boxInnerWidth, boxHeight);
+    // 3. Draw Arenas (see arena.ts)
+    ctx.strokeStyle = colors.arenaStroke;
+    ctx.lineWidth = 4 * scale;
+    world.arenas.forEach(arena => {
+      if (arena.shape === 'circle') {
+        ctx.beginPath();
+        ctx.arc(
+          arena.x + arena.width / 2,
+          arena.y + arena.height / 2,
+          Math.min(arena.width, arena.height) / 2,
+          0,
+          Math.PI * 2
+        );
+        ctx.stroke();
+      } else {
+        ctx.strokeRect(arena.x, arena.y, arena.width, arena.height);
+      }
 
-    // 4. Coins
-    world.coinBodies.forEach(cb => {
-      const { position } = cb.body;
+      if (arena.label) {
+        ctx.save();
+        ctx.font = this.font(28 * scale);
+        ctx.fillStyle = colors.arenaLabel;
+        ctx.textAlign = 'left';
+        ctx.textBaseline = 'top';
+        ctx.fillText(this.locale.messages.sectors[arena.label] ?? arena.label, arena.x + 16 * scale, arena.y + 12 * scale);
+        ctx.restore();
+      }
+    });
+
+    // 4. Coins, with their state effects (see coin-effects.ts)
+    const coins = Array.from(world.coinBodies.values()).map(cb => ({
+      cb,
+      position: world.renderPosition(cb), // Interpolated between physics steps
+    }));
+    this.coinEffects.update(coins);
+    coins.forEach(({ cb, position }) => this.coinEffects.drawBehind(ctx, cb, position, this.coinImages.get(cb.id)));
+
+    coins.forEach(({ cb, position }) => {
       const r = cb.radius;
       const img = this.coinImages.get(cb.id);
 
       ctx.save();
       ctx.translate(position.x, position.y);
+      ctx.globalAlpha = cb.opacity; // Spawn / exit animations
       
       // Shadow
       ctx.beginPath();
-      ctx.arc(0, 5, r, 0, Math.PI * 2);
-      ctx.fillStyle = 'rgba(0,0,0,0.3)';
+      ctx.arc(0, 5 * scale, r, 0, Math.PI * 2);
+      ctx.fillStyle = colors.coinShadow;
       ctx.fill();
 
       // Coin Clip
@@ -107,341 +199,176 @@ export class Renderer {
       if (img) {
         ctx.drawImage(img, -r, -r, r * 2, r * 2);
       } else {
-        ctx.fillStyle = '#ccc';
+        ctx.fillStyle = colors.coinFallback;
         ctx.fill();
       }
 
       ctx.restore();
     });
+
+    coins.forEach(({ cb, position }) => this.coinEffects.drawFront(ctx, cb, position, frameIndex));
     
-    // 4. Japanese Overlay Text (Below Slider)
-    ctx.textAlign = 'left';
-    ctx.textBaseline = 'top';
-    ctx.fillStyle = 'rgba(255, 255, 255, 0.7)';
-    ctx.font = '24px sans-serif'; 
+    // 4b. Event callouts, on top of the coins
+    this.drawCallouts(ctx, world, frameIndex);
     
-    // 5. Chart
-    if (coinMetrics) {
-        this.drawChart(ctx, coinMetrics, currentDate);
-    }
+    // 5. Widgets over the world (title, leaderboard, chart by default)
+    this.drawWidgets(frame, w => w.z >= 0);
+
+    // 6. Branding
+    this.drawLogo(ctx);
   }
 
-  drawChart(
-    ctx: CanvasRenderingContext2D, 
-    coinMetrics: Map<string, MetricSeries[]>, 
-    currentDate: Date
-  ) {
-    const margin = 60; // Align with box margins
-    const chartY = 1400;
-    const chartHeight = 400; 
-    const chartWidth = this.width - 2 * margin;
-
-    // Window config (48 hours)
-    const windowMs = 48 * 60 * 60 * 1000;
-    const endTime = currentDate.getTime();
-    const startTime = endTime - windowMs;
-
-    // 1. Prepare Data
-    const chartData = new Map<string, { x: number, y: number }[]>();
-    let targetMin = 0;
-    let targetMax = 0;
-    let first = true;
-    
-    // Store valid coins for legend/colors
-    const activeCoins: string[] = [];
-
-    coinMetrics.forEach((series, id) => {
-        // Filter in window (plus one point before to interpolate start if needed, but simple filter is ok for now)
-        // We actually want points *within* the window, plus we need to know the 'current price' at endTime.
-        
-        // Find points in range [startTime, endTime]
-        const inWindow = series.filter(s => s.timestamp >= startTime && s.timestamp <= endTime);
-        
-        // If no points in window, check if we have surround points to interpolate a straight line?
-        // Simplification: if < 1 point in window, try to use last known point.
-        // Actually, for smoothness, we need to interpolate the EXACT price at `endTime`.
-        
-        // Find indices around endTime
-        let pNextIdx = series.findIndex(s => s.timestamp > endTime);
-        let pPrevIdx = pNextIdx === -1 ? series.length - 1 : pNextIdx - 1;
-        
-        // Interpolate current price
-        let currentPrice = 0;
-        if (pPrevIdx >= 0 && series[pPrevIdx]) {
-            const pPrev = series[pPrevIdx];
-            if (pNextIdx !== -1 && series[pNextIdx]) {
-                const pNext = series[pNextIdx];
-                const ratio = (endTime - pPrev.timestamp) / (pNext.timestamp - pPrev.timestamp);
-                currentPrice = pPrev.price + (pNext.price - pPrev.price) * ratio;
-            } else {
-                currentPrice = pPrev.price; // Flat line extended
-            }
-        } else {
-            return; // No Data
-        }
-        
-        // Determine Base Price (price at startTime).
-        // Similar interpolation for startTime
-        let basePrice = 0;
-        let sNextIdx = series.findIndex(s => s.timestamp > startTime);
-        let sPrevIdx = sNextIdx === -1 ? series.length - 1 : sNextIdx - 1;
-        
-        if (sPrevIdx >= 0 && series[sPrevIdx]) {
-             const sPrev = series[sPrevIdx];
-             if (sNextIdx !== -1 && series[sNextIdx]) {
-                 const sNext = series[sNextIdx];
-                 const ratio = (startTime - sPrev.timestamp) / (sNext.timestamp - sPrev.timestamp);
-                 basePrice = sPrev.price + (sNext.price - sPrev.price) * ratio;
-             } else {
-                 basePrice = sPrev.price;
-             }
-        } else if (sNextIdx !== -1) {
-            // Started after startTime
-            basePrice = series[sNextIdx].price;
-        } else {
-            return;
-        }
-
-        if (basePrice === 0) return;
-
-        // Construct points: Existing known points in window + Current Head
-        const rawPoints = inWindow; 
-        
-        // Normalize
-        const points = rawPoints.map(s => {
-            const timePct = (s.timestamp - startTime) / windowMs;
-            const valPct = (s.price - basePrice) / basePrice;
-            return { x: timePct, y: valPct };
-        });
-        
-        // Add Head Point
-        points.push({ x: 1.0, y: (currentPrice - basePrice) / basePrice });
-
-        // Update Min/Max
-        points.forEach(p => {
-           if (first) {
-             targetMin = p.y;
-             targetMax = p.y;
-             first = false;
-           } else {
-             if (p.y < targetMin) targetMin = p.y;
-             if (p.y > targetMax) targetMax = p.y;
-           }
-        });
-
-        chartData.set(id, points);
-        activeCoins.push(id);
+  // Each widget gets a clean context state
+  private drawWidgets(frame: WidgetFrame, filter: (widget: Widget) => boolean) {
+    this.widgets.filter(filter).forEach(widget => {
+      frame.ctx.save();
+      widget.draw(frame);
+      frame.ctx.restore();
     });
-    
-    // Add padding to Y range
-    const yRange = targetMax - targetMin;
-    if (yRange < 0.04) {
-        const center = (targetMin + targetMax) / 2;
-        targetMin = center - 0.02;
-        targetMax = center + 0.02;
+  }
+
+  private drawBackground(ctx: CanvasRenderingContext2D) {
+    const { width, height } = this;
+    const { background } = this.theme;
+
+    if (background.video) {
+      // Left transparent; VideoEncoder lays the frame over the looping video
+      ctx.clearRect(0, 0, width, height);
+    } else if (this.backgroundImage) {
+      // Cover: fill the frame, crop the overflow
+      const img = this.backgroundImage;
+      const s = Math.max(width / img.width, height / img.height);
+      ctx.drawImage(img, (width - img.width * s) / 2, (height - img.height * s) / 2, img.width * s, img.height * s);
     } else {
-        targetMin -= yRange * 0.1;
-        targetMax += yRange * 0.1;
+      const gradient = ctx.createLinearGradient(0, 0, 0, height);
+      const stops = background.colors;
+      stops.forEach((color, i) => gradient.addColorStop(stops.length === 1 ? 0 : i / (stops.length - 1), color));
+      ctx.fillStyle = gradient;
+      ctx.fillRect(0, 0, width, height);
     }
-    
-    // Smoothing (Damping)
-    if (this.smoothMinVal === null || this.smoothMaxVal === null) {
-        this.smoothMinVal = targetMin;
-        this.smoothMaxVal = targetMax;
-    } else {
-        const alpha = 0.1; // Smoothing factor
-        this.smoothMinVal = this.smoothMinVal + (targetMin - this.smoothMinVal) * alpha;
-        this.smoothMaxVal = this.smoothMaxVal + (targetMax - this.smoothMaxVal) * alpha;
+
+    // Keeps text readable over busy images
+    if ((background.video || this.backgroundImage) && background.dim > 0) {
+      ctx.fillStyle = `rgba(0, 0, 0, ${background.dim})`;
+      ctx.fillRect(0, 0, width, height);
     }
-    
-    const minVal = this.smoothMinVal;
-    const maxVal = this.smoothMaxVal;
-    
-    // 2. Draw Background
-    ctx.fillStyle = 'rgba(0, 0, 0, 0.2)';
-    ctx.fillRect(margin, chartY, chartWidth, chartHeight);
-    
-    // Draw Date Label (Inside Chart, Top-Left)
-    ctx.textAlign = 'left';
-    ctx.fillStyle = 'rgba(255, 255, 255, 0.5)';
-    ctx.font = 'bold 24px sans-serif'; 
-    const dateStr = currentDate.toLocaleString('en-US', { month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', hour12: false }).replace(',', '');
-    ctx.fillText(dateStr, margin + 20, chartY + 40);
-    
-    // Zero line
-    if (minVal < 0 && maxVal > 0) {
-        const zeroY = chartY + chartHeight - (0 - minVal) / (maxVal - minVal) * chartHeight;
-        ctx.strokeStyle = 'rgba(255, 255, 255, 0.2)';
-        ctx.lineWidth = 1;
-        ctx.beginPath();
-        ctx.moveTo(margin, zeroY);
-        ctx.lineTo(margin + chartWidth, zeroY);
-        ctx.stroke();
+  }
+
+  private drawLogo(ctx: CanvasRenderingContext2D) {
+    const logo = this.theme.logo;
+    const img = this.logoImage;
+    if (!logo || !img) return;
+
+    const { scale, margin } = this.scene;
+    const h = logo.size * scale;
+    const w = h * (img.width / img.height);
+    const x = logo.position.endsWith('left') ? margin : this.width - margin - w;
+    const y = logo.position.startsWith('top') ? margin : this.height - margin - h;
+
+    ctx.save();
+    ctx.globalAlpha = logo.opacity;
+    ctx.drawImage(img, x, y, w, h);
+    ctx.restore();
+  }
+
+  // Queues events for display; newest win when too many happen at once
+  showEvents(events: MarketEvent[]) {
+    events.forEach(event => this.callouts.push({ event, startFrame: event.frame }));
+    if (this.callouts.length > this.MAX_CALLOUTS) {
+      this.callouts = this.callouts.slice(-this.MAX_CALLOUTS);
     }
+  }
 
-    // 3. Draw Lines
-    activeCoins.forEach((id, index) => {
-        const points = chartData.get(id);
-        if (!points) return;
-        
-        // Generate Color based on ID string hash to be consistent
-        let hash = 0;
-        for (let i = 0; i < id.length; i++) {
-             hash = id.charCodeAt(i) + ((hash << 5) - hash);
-        }
-        const hue = Math.abs(hash % 360);
-        const color = `hsl(${hue}, 70%, 60%)`;
-        
-        ctx.strokeStyle = color;
-        ctx.lineWidth = 3;
-        ctx.beginPath();
-        
-        let lastX = 0;
-        let lastY = 0;
-        
-        points.forEach((p, i) => {
-            const px = margin + p.x * chartWidth;
-            const py = chartY + chartHeight - (p.y - minVal) / (maxVal - minVal) * chartHeight;
-            if (i === 0) ctx.moveTo(px, py);
-            else ctx.lineTo(px, py);
-            
-            lastX = px;
-            lastY = py;
-        });
-        ctx.stroke();
-        
-        // 4. Draw Icon at Tip
-        const img = this.coinImages.get(id);
-        if (img) {
-            const iconSize = 40;
-            ctx.save();
-            ctx.beginPath();
-            ctx.arc(lastX, lastY, iconSize/2 + 2, 0, Math.PI*2);
-            ctx.fillStyle = '#fff'; // Border
-            ctx.fill();
-            
-            ctx.beginPath();
-            ctx.arc(lastX, lastY, iconSize/2, 0, Math.PI*2);
-            ctx.clip();
-            ctx.drawImage(img, lastX - iconSize/2, lastY - iconSize/2, iconSize, iconSize);
-            ctx.restore();
-        }
+  // State carried between frames, for simulation snapshots (see snapshot.ts)
+  snapshot(): RendererSnapshot {
+    const widgets: Record<string, unknown> = {};
+    this.widgets.forEach(widget => {
+      if (widget.snapshot) widgets[widget.id] = widget.snapshot();
+    });
+    return { callouts: [...this.callouts], widgets, coinEffects: this.coinEffects.snapshot() };
+  }
+
+  restore(snapshot: RendererSnapshot) {
+    this.callouts = [...snapshot.callouts];
+    this.coinEffects.restore(snapshot.coinEffects);
+    this.widgets.forEach(widget => {
+      if (widget.restore && widget.id in snapshot.widgets) widget.restore(snapshot.widgets[widget.id]);
     });
-    
-    // Label Y-Axis (Min/Max)
-    ctx.font = '24px monospace';
-    ctx.fillStyle = '#aaa';
-    ctx.textAlign = 'right';
-    ctx.fillText(`${(maxVal*100).toFixed(0)}%`, margin - 10, chartY + 24);
-    ctx.fillText(`${(minVal*100).toFixed(0)}%`, margin - 10, chartY + chartHeight);
   }
 
+  private calloutText(event: MarketEvent): string {
+    const symbol = this.coinSymbols.get(event.coinId) || event.coinId.toUpperCase();
+    const pct = formatPercent(this.locale, event.value);
+    return formatMessage(this.locale.messages.callouts[event.type], { symbol, pct });
+  }
 
-  drawHeader(
-    ctx: CanvasRenderingContext2D,
-    coinMetrics: Map<string, MetricSeries[]>,
-    currentDate: Date
-  ) {
-      const headerH = 280;
-      const width = this.width;
+  private drawCallouts(ctx: CanvasRenderingContext2D, world: PhysicsWorld, frameIndex: number) {
+    const { scale, box } = this.scene;
+    const { colors } = this.theme;
+    this.callouts = this.callouts.filter(c => frameIndex - c.startFrame < this.CALLOUT_FRAMES);
+    const perCoin = new Map<string, number>(); // Stacks callouts on the same coin
+
+    this.callouts.forEach(({ event, startFrame }) => {
+      const t = (frameIndex - startFrame) / this.CALLOUT_FRAMES;
+      // Pop in with a little overshoot, drift up, fade out over the last quarter
+      const pop = t < 0.12 ? easeOutBack(t / 0.12) : 1;
+      const alpha = t > 0.75 ? (1 - t) / 0.25 : 1;
+      const rise = -20 * scale * t;
+
+      let x: number;
+      let y: number;
+      let fontSize: number;
+      if (event.type === 'leader-change') {
+        // Banner across the top of the box
+        x = box.x + box.width / 2;
+        y = box.y + 50 * scale;
+        fontSize = 40 * scale;
+      } else {
+        const cb = world.coinBodies.get(event.coinId);
+        if (!cb) return;
+        const stack = perCoin.get(event.coinId) || 0;
+        perCoin.set(event.coinId, stack + 1);
+        const position = world.renderPosition(cb);
+        x = position.x;
+        y = position.y - cb.radius - (30 + stack * 50) * scale;
+        fontSize = 30 * scale;
+      }
 
-      // Title
+      const text = this.calloutText(event);
+      ctx.save();
+      ctx.font = this.font(fontSize);
+      const padX = fontSize * 0.5;
+      const w = ctx.measureText(text).width + padX * 2;
+      const h = fontSize * 1.5;
+      // Keep the bubble on screen
+      x = Math.max(w / 2 + 10, Math.min(this.width - w / 2 - 10, x));
+
+      ctx.globalAlpha = alpha;
+      ctx.translate(x, y + rise);
+      ctx.scale(pop, pop);
+
+      roundRectPath(ctx, -w / 2, -h / 2, w, h, h / 2);
+      ctx.fillStyle = colors.callouts[event.type];
+      ctx.fill();
+      ctx.lineWidth = 3 * scale;
+      ctx.strokeStyle = colors.calloutStroke;
+      ctx.stroke();
+
+      ctx.fillStyle = colors.calloutText;
       ctx.textAlign = 'center';
       ctx.textBaseline = 'middle';
-      ctx.fillStyle = '#ffffff';
-      ctx.font = 'bold 64px sans-serif'; 
-      ctx.fillText("Which coin is best in 7 days?", width / 2, 180);
-
-      // --- Leaderboard ---
-      // Determine Top 2 Gainers in current 48h window
-      // We reuse logic from Chart to find relative performance.
-      const windowMs = 48 * 60 * 60 * 1000;
-      const endTime = currentDate.getTime();
-      const startTime = endTime - windowMs;
-
-      const performance: { id: string, gain: number }[] = [];
-
-      coinMetrics.forEach((series, id) => {
-          // Get End Price (interpolate)
-          const pEnd = this.getInterpPrice(series, endTime);
-          const pStart = this.getInterpPrice(series, startTime);
-          
-          if (pStart > 0 && pEnd > 0) {
-              const gain = (pEnd - pStart) / pStart;
-              performance.push({ id, gain });
-          }
-      });
-
-      // Sort Descending
-      performance.sort((a, b) => b.gain - a.gain);
-      const top2 = performance.slice(0, 2);
-
-      // Draw Top 2
-      const rowY = 280;
-      const gapX = 350; // Distance between Gold and Silver
-      const centerX = width / 2;
-
-      top2.forEach((item, index) => {
-          const x = centerX + (index === 0 ? -gapX/2 : gapX/2);
-          const rank = index + 1;
-          const symbol = this.coinSymbols.get(item.id) || item.id;
-          const img = this.coinImages.get(item.id);
-          const medalImg = index === 0 ? this.medalImages.get('gold') : this.medalImages.get('silver');
-
-          // Common Center Y for this item
-          const itemCenterY = rowY;
-
-          // 1. Draw Medal (Left)
-          const medalX = x - 85; 
-          if (medalImg) {
-              const medalR = 32;
-              const targetHeight = medalR * 2.4;
-              const ratio = medalImg.width / medalImg.height;
-              const targetWidth = targetHeight * ratio;
-              
-              ctx.drawImage(
-                  medalImg, 
-                  medalX - targetWidth / 2, 
-                  itemCenterY - targetHeight / 2, 
-                  targetWidth, 
-                  targetHeight
-              );
-          }
-
-          // 2. Draw Coin Icon (Center)
-          const iconSize = 64;
-          if (img) {
-              ctx.save();
-              ctx.beginPath();
-              ctx.arc(x, itemCenterY, iconSize/2, 0, Math.PI*2);
-              ctx.clip();
-              ctx.drawImage(img, x - iconSize/2, itemCenterY - iconSize/2, iconSize, iconSize);
-              ctx.restore();
-          }
-
-          // 3. Draw Ticker (Right)
-          ctx.textAlign = 'left';
-          ctx.textBaseline = 'middle'; 
-          ctx.font = 'bold 48px sans-serif';
-          ctx.fillStyle = '#fff';
-          ctx.fillText(symbol, x + 50, itemCenterY + 2); // +2 for visual optical balancing
-      });
+      ctx.fillText(text, 0, 0);
+      ctx.restore();
+    });
   }
 
-  // Helper for basic linear interpolation
-  private getInterpPrice(series: MetricSeries[], time: number): number {
-      if (series.length === 0) return 0;
-      // Find index after time
-      const idx = series.findIndex(s => s.timestamp > time);
-      if (idx === -1) return series[series.length - 1].price; // After all data
-      if (idx === 0) return series[0].price; // Before all data
-      
-      const pNext = series[idx];
-      const pPrev = series[idx - 1];
-      const ratio = (time - pPrev.timestamp) / (pNext.timestamp - pPrev.timestamp);
-      return pPrev.price + (pNext.price - pPrev.price) * ratio;
-  }
   getBuffer() {
     return this.canvas.toBuffer('image/png');
   }
 }
+
+function easeOutBack(t: number): number {
+  const c1 = 1.70158;
+  const c3 = c1 + 1;
+  return 1 + c3 * Math.pow(t - 1, 3) + c1 * Math.pow(t - 1, 2);
+}
@@ -0,0 +1,129 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { CoinData, MarketChartData, MarketDataProvider } from './provider';
+import { CoinSelection, filterExcluded, resolveCategory } from './universe';
+
+// Offline provider that replays price history from files on disk.
+//
+// Directory layout:
+//   coins.json        - optional CoinData[] (image may be a URL or a path relative to the dir,
+//                       `categories` enables category selection)
+//   <coinId>.json     - { "prices": [[timestamp, price], ...] } (same shape as CoinGecko market_chart) or a bare array
+//   <coinId>.csv      - header row with a timestamp column and a price/close column
+//
+// Timestamps may be epoch milliseconds or anything Date.parse understands.
+export class ReplayProvider implements MarketDataProvider {
+  readonly name = 'replay';
+  readonly seriesKey = 'replay';
+  private dir: string;
+
+  constructor(dir: string) {
+    this.dir = path.resolve(dir);
+  }
+
+  async fetchTopCoins(selection: CoinSelection): Promise<CoinData[]> {
+    if (!(await fs.pathExists(this.dir))) {
+      throw new Error(`[Replay] Directory not found: ${this.dir}`);
+    }
+
+    let coins: CoinData[];
+    const listPath = path.join(this.dir, 'coins.json');
+
+    if (await fs.pathExists(listPath)) {
+      const list: CoinData[] = await fs.readJson(listPath);
+      coins = list.map(c => ({
+        ...c,
+        image: this.resolveImage(c.image),
+      }));
+    } else {
+      // No coin list: every data file becomes a coin, in alphabetical order.
+      const files = await fs.readdir(this.dir);
+      const ids = Array.from(new Set(
+        files
+          .filter(f => f.endsWith('.json') || f.endsWith('.csv'))
+          .map(f => path.basename(f, path.extname(f)))
+      )).sort();
+      coins = ids.map(id => ({ id, symbol: id, name: id, image: '' }));
+    }
+
+    if (selection.ids) {
+      const byId = new Map(coins.map(c => [c.id, c]));
+      const missing = selection.ids.filter(id => !byId.has(id));
+      if (missing.length > 0) {
+        console.warn(`[Replay] No replay data for: ${missing.join(', ')}`);
+      }
+      coins = selection.ids.filter(id => byId.has(id)).map(id => byId.get(id)!);
+    } else if (selection.category) {
+      // coins.json may use aliases or other casing ("meme", "Meme-Token")
+      const wanted = resolveCategory(selection.category).toLowerCase();
+      coins = coins.filter(c => c.categories?.some(category => resolveCategory(category).toLowerCase() === wanted));
+    }
+
+    const result = filterExcluded(coins, selection).slice(0, selection.limit);
+    console.log(`[Replay] Coins: ${result.map(c => c.id).join(', ')}`);
+    return result;
+  }
+
+  async fetchMarketChart(coinId: string, days: number): Promise<MarketChartData> {
+    const jsonPath = path.join(this.dir, `${coinId}.json`);
+    const csvPath = path.join(this.dir, `${coinId}.csv`);
+
+    let prices: [number, number][];
+    if (await fs.pathExists(jsonPath)) {
+      const raw = await fs.readJson(jsonPath);
+      const rows = Array.isArray(raw) ? raw : raw.prices;
+      if (!Array.isArray(rows)) {
+        throw new Error(`[Replay] ${jsonPath} has no prices array`);
+      }
+      prices = rows.map((row: [number | string, number | string]) => [parseTimestamp(row[0]), Number(row[1])]);
+    } else if (await fs.pathExists(csvPath)) {
+      prices = parseCsvPrices(await fs.readFile(csvPath, 'utf8'), csvPath);
+    } else {
+      throw new Error(`[Replay] No data file for ${coinId} in ${this.dir}`);
+    }
+
+    prices.sort((a, b) => a[0] - b[0]);
+
+    // Replays end at the last recorded point, so "days" counts back from there
+    // rather than from now.
+    if (prices.length > 0) {
+      const cutoff = prices[prices.length - 1][0] - days * 24 * 60 * 60 * 1000;
+      prices = prices.filter(p => p[0] >= cutoff);
+    }
+
+    console.log(`[Replay] Loaded ${prices.length} points for ${coinId}`);
+    return { prices };
+  }
+
+  private resolveImage(image: string): string {
+    if (!image || /^(https?:|data:)/.test(image) || path.isAbsolute(image)) return image;
+    return path.join(this.dir, image);
+  }
+}
+
+function parseTimestamp(value: number | string): number {
+  const num = Number(value);
+  if (!isNaN(num)) return num;
+  const parsed = Date.parse(String(value));
+  if (isNaN(parsed)) {
+    throw new Error(`[Replay] Invalid timestamp: ${value}`);
+  }
+  return parsed;
+}
+
+function parseCsvPrices(text: string, filePath: string): [number, number][] {
+  const lines = text.split(/\r?\n/).filter(l => l.trim().length > 0);
+  if (lines.length === 0) return [];
+
+  const header = lines[0].split(',').map(h => h.trim().toLowerCase());
+  const tsCol = header.findIndex(h => ['timestamp', 'time', 'date'].includes(h));
+  const priceCol = header.findIndex(h => ['price', 'close'].includes(h));
+  if (tsCol === -1 || priceCol === -1) {
+    throw new Error(`[Replay] ${filePath} needs a timestamp and a price (or close) column`);
+  }
+
+  return lines.slice(1).map(line => {
+    const cells = line.split(',');
+    return [parseTimestamp(cells[tsCol].trim()), Number(cells[priceCol])] as [number, number];
+  });
+}
@@ -0,0 +1,249 @@
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import Matter from 'matter-js';
+import { WorldSnapshot } from './physics';
+import { EventDetectorSnapshot } from './events';
+import { RendererSnapshot } from './render';
+
+// Simulation snapshots: the complete state needed to resume a render at a given
+// frame and get exactly the frames a full render would have produced. main()
+// writes one every --snapshot_every seconds; --frames restores the nearest one
+// instead of simulating from frame 0.
+//
+// "Exactly" means every piece of state the next step reads: Matter's bodies
+// (including the vertices, which drift from a fresh circle after repeated
+// scaling), body ids (pair keys and solver order depend on them), the contact
+// impulses Matter carries between steps, the broadphase order, and our own
+// state (hop timers, RNG, event detector, widget state such as chart smoothing).
+
+type Vec = { x: number; y: number };
+
+export interface BodyState {
+  id: number;
+  label: string;
+  vertices: Vec[];
+  axes: Vec[];
+  bounds: { min: Vec; max: Vec };
+  vectors: Record<typeof VECTOR_KEYS[number], Vec>;
+  scalars: Record<typeof SCALAR_KEYS[number], number>;
+  constraintImpulse: { x: number; y: number; angle: number };
+  collisionFilter: { category: number; mask: number; group: number };
+}
+
+type VertexRef = { body: number; index: number } | null;
+
+export interface PairState {
+  bodyA: number; // Body ids, lower first like Matter's own collisions
+  bodyB: number;
+  isActive: boolean;
+  timeCreated: number;
+  timeUpdated: number;
+  separation: number;
+  contactCount: number;
+  contacts: { vertex: VertexRef; normalImpulse: number; tangentImpulse: number }[];
+  supports: VertexRef[]; // The collision record is reused between steps, stale entries included
+}
+
+export interface EngineState {
+  timestamp: number;
+  nextBodyId: number;
+  staticIds: number[]; // Walls in world order; they're rebuilt by setupCoins and get these ids back
+  bodies: BodyState[]; // Non-static bodies in world order
+  detectorOrder: number[]; // Broadphase order, which breaks ties in its sort
+  pairs: PairState[];
+}
+
+export interface SimulationSnapshot {
+  version: number;
+  matterVersion: string; // The state above is Matter's private internals, which change between releases
+  frame: number; // Taken before this frame was simulated
+  fingerprint: string; // See runFingerprint
+  world: WorldSnapshot;
+  events: EventDetectorSnapshot;
+  renderer: RendererSnapshot;
+}
+
+const SNAPSHOT_VERSION = 4;
+
+const VECTOR_KEYS = ['position', 'positionPrev', 'velocity', 'force', 'positionImpulse'] as const;
+const SCALAR_KEYS = [
+  'angle', 'anglePrev', 'angularVelocity', 'angularSpeed', 'speed', 'motion', 'torque', 'totalContacts',
+  'mass', 'inverseMass', 'inertia', 'inverseInertia', 'density', 'area', 'deltaTime', 'circleRadius',
+  'restitution', 'friction', 'frictionAir',
+] as const;
+
+// Matter internals that @types/matter-js doesn't declare
+interface PairsInternals {
+  list: Matter.Pair[];
+  table: Record<string, Matter.Pair>;
+}
+interface EngineInternals {
+  pairs: PairsInternals;
+  detector: Matter.Detector;
+}
+type BodyRecord = Record<string, unknown>;
+const common = Matter.Common as unknown as { _nextId: number };
+export const MATTER_VERSION = (Matter as unknown as { version: string }).version;
+
+const vec = (v: Vec): Vec => ({ x: v.x, y: v.y });
+const vertexRef = (v: Matter.Vertex | null | undefined): VertexRef => v ? { body: v.body.id, index: v.index } : null;
+
+function serializeBody(body: Matter.Body): BodyState {
+  const record = body as unknown as BodyRecord;
+  return {
+    id: body.id,
+    label: body.label,
+    vertices: body.vertices.map(vec),
+    axes: body.axes.map(vec),
+    bounds: { min: vec(body.bounds.min), max: vec(body.bounds.max) },
+    vectors: Object.fromEntries(VECTOR_KEYS.map(key => [key, vec(record[key] as Vec)])) as BodyState['vectors'],
+    scalars: Object.fromEntries(SCALAR_KEYS.map(key => [key, record[key] as number])) as BodyState['scalars'],
+    constraintImpulse: { ...(record.constraintImpulse as BodyState['constraintImpulse']) },
+    collisionFilter: {
+      category: body.collisionFilter.category ?? 1,
+      mask: body.collisionFilter.mask ?? 0xffffffff,
+      group: body.collisionFilter.group ?? 0,
+    },
+  };
+}
+
+// Creates the body with its original id, then overwrites every derived value
+// with the saved one so nothing is recomputed (and rounded) differently
+function deserializeBody(state: BodyState): Matter.Body {
+  const body = Matter.Body.create({ id: state.id, label: state.label, vertices: state.vertices.map(vec) });
+  const record = body as unknown as BodyRecord;
+
+  state.vertices.forEach((v, i) => {
+    body.vertices[i].x = v.x;
+    body.vertices[i].y = v.y;
+  });
+  body.axes = state.axes.map(vec);
+  body.bounds = { min: vec(state.bounds.min), max: vec(state.bounds.max) };
+  VECTOR_KEYS.forEach(key => { record[key] = vec(state.vectors[key]); });
+  SCALAR_KEYS.forEach(key => { record[key] = state.scalars[key]; });
+  record.constraintImpulse = { ...state.constraintImpulse };
+  body.collisionFilter = { ...state.collisionFilter };
+  return body;
+}
+
+export function serializeEngine(engine: Matter.Engine): EngineState {
+  const { pairs, detector } = engine as unknown as EngineInternals;
+  return {
+    timestamp: engine.timing.timestamp,
+    nextBodyId: common._nextId,
+    staticIds: Matter.Composite.allBodies(engine.world).filter(b => b.isStatic).map(b => b.id),
+    bodies: Matter.Composite.allBodies(engine.world).filter(b => !b.isStatic).map(serializeBody),
+    detectorOrder: detector.bodies.map(b => b.id),
+    pairs: pairs.list.map(pair => ({
+      bodyA: pair.collision.bodyA.id,
+      bodyB: pair.collision.bodyB.id,
+      isActive: pair.isActive,
+      timeCreated: pair.timeCreated,
+      timeUpdated: pair.timeUpdated,
+      separation: pair.separation,
+      contactCount: (pair as unknown as { contactCount: number }).contactCount,
+      contacts: pair.contacts.map(c => ({
+        vertex: vertexRef(c.vertex),
+        normalImpulse: c.normalImpulse,
+        tangentImpulse: c.tangentImpulse,
+      })),
+      supports: pair.collision.supports.map(v => vertexRef(v as Matter.Vertex)),
+    })),
+  };
+}
+
+// Adds the saved bodies to an engine that already holds the same static bodies
+// (walls), in the same order, and restores broadphase and contact state.
+// Returns the restored bodies by label.
+export function restoreEngine(engine: Matter.Engine, state: EngineState): Map<string, Matter.Body> {
+  const { pairs, detector } = engine as unknown as EngineInternals;
+
+  // Ids depend on how many Matter objects the process created before, so the
+  // walls take over the ids they had when the snapshot was written
+  const walls = Matter.Composite.allBodies(engine.world).filter(b => b.isStatic);
+  if (walls.length !== state.staticIds.length) {
+    throw new Error(`Snapshot has ${state.staticIds.length} wall bodies, this world ${walls.length}; the layouts differ`);
+  }
+  walls.forEach((wall, i) => { wall.id = state.staticIds[i]; });
+
+  const restored = state.bodies.map(deserializeBody);
+  Matter.Composite.add(engine.world, restored);
+  const byId = new Map(Matter.Composite.allBodies(engine.world).map(b => [b.id, b]));
+  const vertexAt = (ref: VertexRef) => ref && byId.get(ref.body)!.vertices[ref.index] as Matter.Vertex;
+
+  engine.timing.timestamp = state.timestamp;
+  common._nextId = state.nextBodyId;
+  Matter.Detector.setBodies(detector, state.detectorOrder.map(id => byId.get(id)!));
+  engine.world.isModified = false;
+
+  Matter.Pairs.clear(pairs as unknown as Matter.Pairs);
+  state.pairs.forEach(p => {
+    const bodyA = byId.get(p.bodyA)!;
+    const bodyB = byId.get(p.bodyB)!;
+    const collision = Matter.Collision.create(bodyA, bodyB);
+    collision.collided = true;
+    collision.bodyA = bodyA;
+    collision.bodyB = bodyB;
+    collision.parentA = bodyA.parent;
+    collision.parentB = bodyB.parent;
+
+    const pair = Matter.Pair.create(collision, p.timeCreated);
+    pair.isActive = p.isActive;
+    pair.timeUpdated = p.timeUpdated;
+    pair.separation = p.separation;
+    (pair as unknown as { contactCount: number }).contactCount = p.contactCount;
+    p.contacts.forEach((c, i) => {
+      const contact = pair.contacts[i];
+      if (c.vertex) contact.vertex = vertexAt(c.vertex)!;
+      contact.normalImpulse = c.normalImpulse;
+      contact.tangentImpulse = c.tangentImpulse;
+    });
+    collision.supports = p.supports.map(vertexAt) as Matter.Vector[];
+
+    pairs.table[pair.id] = pair;
+    pairs.list.push(pair);
+  });
+
+  return new Map(restored.map(b => [b.label, b]));
+}
+
+// Identifies the run a snapshot belongs to: settings that shape the simulation,
+// the data itself and the Matter release simulating it. A snapshot is only
+// restored into an identical run.
+export function runFingerprint(settings: Record<string, unknown>, data: unknown): string {
+  const payload = JSON.stringify({ settings, data, matterVersion: MATTER_VERSION });
+  return crypto.createHash('sha1').update(payload).digest('hex').slice(0, 16);
+}
+
+function snapshotPath(dir: string, frame: number): string {
+  return path.join(dir, `frame-${String(frame).padStart(6, '0')}.json`);
+}
+
+export async function writeSnapshot(dir: string, snapshot: Omit<SimulationSnapshot, 'version' | 'matterVersion'>) {
+  await fs.ensureDir(dir);
+  await fs.writeJson(snapshotPath(dir, snapshot.frame), { version: SNAPSHOT_VERSION, matterVersion: MATTER_VERSION, ...snapshot });
+}
+
+// Latest snapshot at or before `frame` taken from this run, or null
+export async function findSnapshot(dir: string, frame: number, fingerprint: string): Promise<SimulationSnapshot | null> {
+  if (!(await fs.pathExists(dir))) return null;
+
+  const frames = (await fs.readdir(dir))
+    .map(file => /^frame-(\d+)\.json$/.exec(file))
+    .filter((m): m is RegExpExecArray => m !== null)
+    .map(m => Number(m[1]))
+    .filter(f => f <= frame)
+    .sort((a, b) => b - a);
+
+  for (const f of frames) {
+    const snapshot: SimulationSnapshot = await fs.readJson(snapshotPath(dir, f));
+    if (snapshot.version !== SNAPSHOT_VERSION) continue;
+    if (snapshot.matterVersion !== MATTER_VERSION) {
+      console.warn(`[Snapshot] Ignoring frame ${f}: written with matter-js ${snapshot.matterVersion}, running ${MATTER_VERSION}`);
+      continue;
+    }
+    if (snapshot.fingerprint === fingerprint) return snapshot;
+  }
+  return null;
+}
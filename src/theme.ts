@@ -0,0 +1,285 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { Config } from './config';
+import { MarketEventType } from './events';
+import { loadNamedEntries, resolveExtendsChain } from './named-entries';
+
+// How a video looks: colors, fonts, background, logo and title. Built-in
+// themes live here; branded series add their own in themes.yaml (or .json):
+//
+//   crypto-daily:
+//     extends: default        # optional, defaults to "default"
+//     title: "Best coin of the last {window}"
+//     background: { image: brand/bg.png, dim: 0.4 }
+//     logo: { image: brand/logo.png, position: bottom-right }
+//     fonts:
+//       family: Inter
+//       files: [{ path: brand/Inter-Bold.ttf, family: Inter, weight: bold }]
+//
+// File paths are relative to the themes file.
+
+export interface FontFile {
+  path: string;
+  family: string;
+  weight?: string;
+  style?: string;
+}
+
+export type LogoPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+export interface Theme {
+  title?: string; // Template, see TITLE_PLACEHOLDERS; defaults to the locale's title (see i18n.ts)
+  background: {
+    colors: string[]; // Vertical gradient, top to bottom
+    image?: string; // Covers the frame instead of the gradient
+    video?: string; // Looped behind the frame by ffmpeg (see video.ts)
+    dim: number; // Black overlay over image/video, 0..1
+  };
+  fonts: {
+    family: string; // Titles, tickers, labels
+    monoFamily: string; // Axis labels
+    files: FontFile[]; // Registered with node-canvas before drawing
+  };
+  colors: {
+    text: string;
+    arenaStroke: string;
+    arenaLabel: string;
+    coinShadow: string;
+    coinFallback: string; // Coins without a logo
+    coinGlow: string; // Volatility ring (see coin-effects.ts)
+    dizzy: string; // Stars over a stunned coin
+    chartBackground: string;
+    chartLabel: string; // Date and benchmark label
+    chartZeroLine: string;
+    axisLabel: string;
+    iconBorder: string;
+    lines: string[]; // Chart line palette; empty = hue from the coin id
+    positive: string; // Gains in widgets (see widgets.ts)
+    negative: string;
+    accent: string; // Progress bar fill
+    calloutText: string;
+    calloutStroke: string;
+    callouts: Record<MarketEventType, string>;
+  };
+  logo?: {
+    image: string;
+    position: LogoPosition;
+    size: number; // Height in px of the reference 1080x1920 composition
+    opacity: number;
+  };
+}
+
+export const DEFAULT_THEME: Theme = {
+  background: { colors: ['#1a1a2e', '#16213e'], dim: 0 },
+  fonts: { family: 'sans-serif', monoFamily: 'monospace', files: [] },
+  colors: {
+    text: '#ffffff',
+    arenaStroke: 'rgba(255, 255, 255, 0.3)',
+    arenaLabel: 'rgba(255, 255, 255, 0.35)',
+    coinShadow: 'rgba(0, 0, 0, 0.3)',
+    coinFallback: '#cccccc',
+    coinGlow: '#f1c40f',
+    dizzy: '#ffe066',
+    chartBackground: 'rgba(0, 0, 0, 0.2)',
+    chartLabel: 'rgba(255, 255, 255, 0.5)',
+    chartZeroLine: 'rgba(255, 255, 255, 0.2)',
+    axisLabel: '#aaaaaa',
+    iconBorder: '#ffffff',
+    lines: [],
+    positive: '#2ecc71',
+    negative: '#e74c3c',
+    accent: '#f39c12',
+    calloutText: '#ffffff',
+    calloutStroke: 'rgba(255, 255, 255, 0.9)',
+    callouts: {
+      'leader-change': '#f39c12',
+      'breakout': '#27ae60',
+      'crash': '#e74c3c',
+      'new-high': '#d4ac0d',
+      'stun': '#8e44ad',
+    },
+  },
+};
+
+type DeepPartial<T> = {
+  [K in keyof T]?: NonNullable<T[K]> extends unknown[] ? T[K] : NonNullable<T[K]> extends object ? DeepPartial<NonNullable<T[K]>> : T[K];
+};
+type ThemeEntry = DeepPartial<Theme> & { extends?: string };
+
+const BUILTIN_THEMES: Record<string, ThemeEntry> = {
+  default: {},
+  light: {
+    background: { colors: ['#f7f9fc', '#e3e9f2'] },
+    colors: {
+      text: '#1b2333',
+      arenaStroke: 'rgba(27, 35, 51, 0.35)',
+      arenaLabel: 'rgba(27, 35, 51, 0.4)',
+      coinShadow: 'rgba(0, 0, 0, 0.15)',
+      chartBackground: 'rgba(27, 35, 51, 0.06)',
+      chartLabel: 'rgba(27, 35, 51, 0.6)',
+      chartZeroLine: 'rgba(27, 35, 51, 0.25)',
+      axisLabel: '#5b6475',
+      iconBorder: '#1b2333',
+      coinGlow: '#e67e22',
+      dizzy: '#d4ac0d',
+      positive: '#1e8449',
+      negative: '#c0392b',
+    },
+  },
+  neon: {
+    background: { colors: ['#05010f', '#1a0533'] },
+    colors: {
+      text: '#f5f3ff',
+      arenaStroke: 'rgba(0, 255, 213, 0.6)',
+      arenaLabel: 'rgba(0, 255, 213, 0.5)',
+      chartBackground: 'rgba(0, 255, 213, 0.05)',
+      chartLabel: 'rgba(0, 255, 213, 0.7)',
+      chartZeroLine: 'rgba(255, 0, 170, 0.4)',
+      axisLabel: '#00ffd5',
+      coinGlow: '#00ffd5',
+      positive: '#00e676',
+      negative: '#ff1744',
+      accent: '#ff00aa',
+      lines: ['#ff00aa', '#00ffd5', '#fff200', '#7c4dff', '#ff6d00', '#00e676', '#2979ff', '#ff1744'],
+    },
+  },
+};
+
+// Placeholders a title template may use
+export interface TitleValues {
+  days: number;
+  windowHours: number;
+  window: string; // "2 days", "36 hours" (localized)
+  coins: number;
+  benchmark: string; // "BTC", "the basket", or empty
+}
+const TITLE_PLACEHOLDERS: (keyof TitleValues)[] = ['days', 'windowHours', 'window', 'coins', 'benchmark'];
+const LOGO_POSITIONS: LogoPosition[] = ['top-left', 'top-right', 'bottom-left', 'bottom-right'];
+
+export function formatTitle(template: string, values: TitleValues): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) =>
+    key in values ? String(values[key as keyof TitleValues]) : match
+  );
+}
+
+// Objects merge key by key, everything else (arrays included) replaces
+function mergeDeep<T>(base: T, override: unknown): T {
+  if (override === undefined) return base;
+  if (typeof base !== 'object' || base === null || Array.isArray(base) || typeof override !== 'object' || override === null) {
+    return override as T;
+  }
+  const result: Record<string, unknown> = { ...(base as Record<string, unknown>) };
+  Object.entries(override as Record<string, unknown>).forEach(([key, value]) => {
+    result[key] = mergeDeep(result[key], value);
+  });
+  return result as T;
+}
+
+export async function validateTheme(theme: Theme, source: string): Promise<Theme> {
+  const problems: string[] = [];
+  const isString = (value: unknown): value is string => typeof value === 'string' && value.length > 0;
+
+  for (const key of Object.keys(theme)) {
+    if (!['title', 'background', 'fonts', 'colors', 'logo'].includes(key)) problems.push(`unknown field "${key}"`);
+  }
+
+  if (theme.title !== undefined && !isString(theme.title)) problems.push('title must be a non-empty string');
+  for (const [, key] of (isString(theme.title) ? theme.title.matchAll(/\{(\w+)\}/g) : [])) {
+    if (!TITLE_PLACEHOLDERS.includes(key as keyof TitleValues)) {
+      problems.push(`title uses unknown placeholder {${key}} (available: ${TITLE_PLACEHOLDERS.map(p => `{${p}}`).join(', ')})`);
+    }
+  }
+
+  const { background, fonts, colors, logo } = theme;
+  if (!Array.isArray(background.colors) || background.colors.length === 0 || !background.colors.every(isString)) {
+    problems.push('background.colors must be a non-empty list of colors');
+  }
+  if (typeof background.dim !== 'number' || background.dim < 0 || background.dim > 1) {
+    problems.push('background.dim must be between 0 and 1');
+  }
+  if (background.image && background.video) problems.push('background.image and background.video are mutually exclusive');
+
+  if (!isString(fonts.family)) problems.push('fonts.family must be a font family name');
+  if (!isString(fonts.monoFamily)) problems.push('fonts.monoFamily must be a font family name');
+  (fonts.files || []).forEach((file, i) => {
+    if (!isString(file.path) || !isString(file.family)) problems.push(`fonts.files[${i}] needs a path and a family`);
+  });
+
+  Object.entries(colors).forEach(([key, value]) => {
+    if (key === 'lines') {
+      if (!Array.isArray(value) || !value.every(isString)) problems.push('colors.lines must be a list of colors');
+    } else if (key === 'callouts') {
+      Object.entries(value as Record<string, unknown>).forEach(([type, color]) => {
+        if (!(type in DEFAULT_THEME.colors.callouts)) problems.push(`colors.callouts has unknown event type "${type}"`);
+        else if (!isString(color)) problems.push(`colors.callouts.${type} must be a color`);
+      });
+    } else if (!(key in DEFAULT_THEME.colors)) {
+      problems.push(`unknown color "${key}"`);
+    } else if (!isString(value)) {
+      problems.push(`colors.${key} must be a color`);
+    }
+  });
+
+  if (logo) {
+    if (!isString(logo.image)) problems.push('logo.image must be a file path');
+    if (!LOGO_POSITIONS.includes(logo.position)) problems.push(`logo.position must be one of ${LOGO_POSITIONS.join(', ')}`);
+    if (typeof logo.size !== 'number' || logo.size <= 0) problems.push('logo.size must be a positive number');
+    if (typeof logo.opacity !== 'number' || logo.opacity < 0 || logo.opacity > 1) problems.push('logo.opacity must be between 0 and 1');
+  }
+
+  // Referenced files must exist before a long render starts
+  const files = [
+    ...(fonts.files || []).map(f => f.path),
+    background.image,
+    background.video,
+    logo?.image,
+  ].filter((file): file is string => isString(file));
+  for (const file of files) {
+    if (!(await fs.pathExists(file))) problems.push(`file not found: ${file}`);
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid theme ${source}:\n  - ${problems.join('\n  - ')}`);
+  }
+  return theme;
+}
+
+// File paths in a theme from the themes file are relative to that file
+function resolvePaths(entry: ThemeEntry, dir: string): ThemeEntry {
+  const resolve = (file: string | undefined) => (file ? path.resolve(dir, file) : file);
+  return {
+    ...entry,
+    background: entry.background && {
+      ...entry.background,
+      image: resolve(entry.background.image),
+      video: resolve(entry.background.video),
+    },
+    fonts: entry.fonts && {
+      ...entry.fonts,
+      files: entry.fonts.files?.map(f => ({ ...f, path: resolve(f.path)! })),
+    },
+    logo: entry.logo && { ...entry.logo, image: resolve(entry.logo.image) },
+  };
+}
+
+const LOGO_DEFAULTS = { position: 'bottom-right' as LogoPosition, size: 80, opacity: 0.8 };
+
+// Resolves --theme (file themes shadow built-ins), follows `extends` and validates
+export async function loadTheme(config: Config): Promise<Theme> {
+  const dir = path.dirname(config.themesFile);
+  const fileThemes = await loadNamedEntries<ThemeEntry>(config.themesFile, 'theme');
+  const chain = resolveExtendsChain(
+    config.theme,
+    name => (name in fileThemes ? resolvePaths(fileThemes[name], dir) : BUILTIN_THEMES[name]),
+    'theme',
+    [...Object.keys(BUILTIN_THEMES), ...Object.keys(fileThemes)]
+  );
+
+  let theme: Theme = DEFAULT_THEME;
+  chain.forEach(({ extends: _parent, ...values }) => {
+    theme = mergeDeep(theme, values);
+  });
+  if (theme.logo) theme = { ...theme, logo: { ...LOGO_DEFAULTS, ...theme.logo } };
+
+  return validateTheme(theme, `"${config.theme}"`);
+}
@@ -0,0 +1,170 @@
+import fs from 'fs-extra';
+import { Config } from './config';
+import { CoinData } from './provider';
+
+// Which coins a video is about. Resolved once from flags/watchlists and handed
+// to the provider, which knows how to turn it into a coin list.
+export interface CoinSelection {
+  ids?: string[]; // Explicit coin ids, kept in the given order
+  category?: string; // Provider category id, e.g. 'layer-1', 'meme-token'
+  limit: number;
+  excludeStables: boolean;
+  excludeWrapped: boolean;
+}
+
+// A watchlist is either a bare list of ids or a small selection object.
+type WatchlistEntry = string[] | { coins?: string[]; category?: string; limit?: number };
+
+// Short names for the CoinGecko categories we use most.
+// Full list: https://api.coingecko.com/api/v3/coins/categories/list
+const CATEGORY_ALIASES: Record<string, string> = {
+  meme: 'meme-token',
+  memes: 'meme-token',
+  l1: 'layer-1',
+  l2: 'layer-2',
+  defi: 'decentralized-finance-defi',
+  ai: 'artificial-intelligence',
+  gaming: 'gaming',
+  rwa: 'real-world-assets-rwa',
+};
+
+// Maintained exclusion sets. Matched on id first and symbol second, since
+// symbols are not unique (several unrelated tokens call themselves "USDT").
+const STABLECOIN_IDS = new Set([
+  'tether', 'usd-coin', 'dai', 'first-digital-usd', 'true-usd', 'usdd', 'ethena-usde',
+  'paypal-usd', 'usds', 'frax', 'liquity-usd', 'gemini-dollar', 'paxos-standard',
+  'binance-usd', 'ripple-usd', 'usd1-wlfi', 'usdtb', 'euro-coin', 'stasis-eurs',
+  'ethena-staked-usde', 'susds', 'falcon-finance', 'global-dollar', 'bfusd',
+]);
+const STABLECOIN_SYMBOLS = new Set([
+  'usdt', 'usdc', 'dai', 'fdusd', 'tusd', 'usdd', 'usde', 'pyusd', 'usds', 'frax',
+  'lusd', 'gusd', 'usdp', 'busd', 'rlusd', 'usd1', 'usdtb', 'eurc', 'eurs', 'susde',
+  'susds', 'usdf', 'usdg', 'bfusd', 'crvusd', 'gho', 'usd0', 'bsc-usd',
+]);
+
+const WRAPPED_IDS = new Set([
+  'wrapped-bitcoin', 'weth', 'staked-ether', 'wrapped-steth', 'coinbase-wrapped-btc',
+  'wrapped-eeth', 'rocket-pool-eth', 'coinbase-wrapped-staked-eth', 'binance-peg-weth',
+  'wrapped-beacon-eth', 'lombard-staked-btc', 'solv-btc', 'wrapped-solana',
+  'mantle-staked-ether', 'kelp-dao-restaked-eth', 'renzo-restaked-eth', 'jito-staked-sol',
+  'binance-staked-sol', 'marinade-staked-sol', 'wrapped-bnb', 'wrapped-avax', 'tbtc',
+]);
+const WRAPPED_SYMBOLS = new Set([
+  'wbtc', 'weth', 'steth', 'wsteth', 'cbbtc', 'weeth', 'reth', 'cbeth', 'wbeth',
+  'lbtc', 'solvbtc', 'meth', 'rseth', 'ezeth', 'jitosol', 'bnsol', 'msol', 'wbnb',
+  'wavax', 'wsol', 'tbtc',
+]);
+
+// Coarse sectors for the split layout. Sources that report categories (replay)
+// take precedence; this covers the usual top-100 names for everything else.
+const SECTOR_IDS: Record<string, string[]> = {
+  'Layer 1': [
+    'bitcoin', 'ethereum', 'binancecoin', 'solana', 'cardano', 'avalanche-2', 'tron',
+    'polkadot', 'near', 'aptos', 'sui', 'internet-computer', 'cosmos', 'algorand',
+    'the-open-network', 'litecoin', 'bitcoin-cash', 'stellar', 'ripple', 'hedera-hashgraph',
+    'ethereum-classic', 'monero', 'kaspa', 'hyperliquid',
+  ],
+  'Layer 2': ['matic-network', 'polygon-ecosystem-token', 'arbitrum', 'optimism', 'mantle', 'starknet', 'immutable-x', 'stacks'],
+  'DeFi': [
+    'chainlink', 'uniswap', 'aave', 'maker', 'lido-dao', 'the-graph', 'curve-dao-token',
+    'jupiter-exchange-solana', 'pendle', 'ethena', 'ondo-finance', 'injective-protocol',
+  ],
+  'Meme': ['dogecoin', 'shiba-inu', 'pepe', 'dogwifcoin', 'bonk', 'floki', 'official-trump', 'brett'],
+  'AI': ['fetch-ai', 'render-token', 'bittensor', 'artificial-superintelligence-alliance', 'virtual-protocol'],
+};
+
+const SECTOR_BY_CATEGORY: Record<string, string> = {
+  'layer-1': 'Layer 1',
+  'layer-2': 'Layer 2',
+  'decentralized-finance-defi': 'DeFi',
+  'meme-token': 'Meme',
+  'artificial-intelligence': 'AI',
+};
+
+export const OTHER_SECTOR = 'Other';
+
+export function sectorOf(coin: Pick<CoinData, 'id' | 'categories'>): string {
+  for (const category of coin.categories || []) {
+    const sector = SECTOR_BY_CATEGORY[resolveCategory(category)];
+    if (sector) return sector;
+  }
+  for (const [sector, ids] of Object.entries(SECTOR_IDS)) {
+    if (ids.includes(coin.id)) return sector;
+  }
+  return OTHER_SECTOR;
+}
+
+export function isStablecoin(coin: Pick<CoinData, 'id' | 'symbol'>): boolean {
+  return STABLECOIN_IDS.has(coin.id) || STABLECOIN_SYMBOLS.has(coin.symbol.toLowerCase());
+}
+
+export function isWrappedToken(coin: Pick<CoinData, 'id' | 'symbol'>): boolean {
+  return WRAPPED_IDS.has(coin.id) || WRAPPED_SYMBOLS.has(coin.symbol.toLowerCase());
+}
+
+// Applies the exclusion sets. Explicitly requested ids are never excluded:
+// asking for tether by name means you want tether.
+export function filterExcluded<T extends Pick<CoinData, 'id' | 'symbol'>>(coins: T[], selection: CoinSelection): T[] {
+  if (selection.ids) return coins;
+  return coins.filter(c =>
+    !(selection.excludeStables && isStablecoin(c)) &&
+    !(selection.excludeWrapped && isWrappedToken(c))
+  );
+}
+
+export function resolveCategory(category: string): string {
+  return CATEGORY_ALIASES[category.toLowerCase()] || category;
+}
+
+function parseIdList(ids: string[]): string[] {
+  return ids.map(id => String(id).trim().toLowerCase()).filter(id => id.length > 0);
+}
+
+// Precedence: --coins_list, then --watchlist, then --category, then plain top N.
+export async function resolveSelection(config: Config): Promise<CoinSelection> {
+  const base: CoinSelection = {
+    limit: config.coins,
+    excludeStables: config.excludeStables,
+    excludeWrapped: config.excludeWrapped,
+  };
+
+  if (config.coinsList.length > 0) {
+    return { ...base, ids: config.coinsList, limit: config.coinsList.length };
+  }
+
+  if (config.watchlist) {
+    if (!(await fs.pathExists(config.watchlistsFile))) {
+      throw new Error(`Watchlist "${config.watchlist}" requested but ${config.watchlistsFile} does not exist`);
+    }
+    const watchlists: Record<string, WatchlistEntry> = await fs.readJson(config.watchlistsFile);
+    const entry = watchlists[config.watchlist];
+    if (!entry) {
+      throw new Error(`Unknown watchlist "${config.watchlist}" (available: ${Object.keys(watchlists).join(', ')})`);
+    }
+
+    if (Array.isArray(entry)) {
+      const ids = parseIdList(entry);
+      return { ...base, ids, limit: ids.length };
+    }
+    if (entry.coins) {
+      const ids = parseIdList(entry.coins);
+      return { ...base, ids, limit: ids.length };
+    }
+    if (entry.category) {
+      return { ...base, category: resolveCategory(entry.category), limit: entry.limit || base.limit };
+    }
+    throw new Error(`Watchlist "${config.watchlist}" needs a coins list or a category`);
+  }
+
+  if (config.category) {
+    return { ...base, category: resolveCategory(config.category) };
+  }
+
+  return base;
+}
+
+export function describeSelection(selection: CoinSelection): string {
+  if (selection.ids) return `coins ${selection.ids.join(', ')}`;
+  if (selection.category) return `top ${selection.limit} in category ${selection.category}`;
+  return `top ${selection.limit} by market cap`;
+}
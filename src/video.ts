@@ -8,16 +8,42 @@ export class VideoEncoder {
   imageStream: PassThrough;
   outputPath: string;
 
-  constructor() {
-    this.outputPath = path.join(config.outputDir, 'crypto-mood.mp4');
+  // With a background video (see theme.ts) the rendered frames have a transparent
+  // background and are overlaid on the video, looped to the full duration.
+  // `startFrame` is the first rendered frame (--frames), so the video is at the
+  // same point as in a full render.
+  constructor(
+    outputPath: string = path.join(config.outputDir, 'crypto-mood.mp4'),
+    backgroundVideo?: string,
+    startFrame: number = 0
+  ) {
+    this.outputPath = outputPath;
     this.imageStream = new PassThrough();
 
     this.command = ffmpeg();
     this.command
       .input(this.imageStream)
       .inputFormat('image2pipe')
-      .inputFPS(config.fps)
+      .inputFPS(config.fps);
       // .inputOptions(['-vcodec png']) // Typically not needed for pipe unless probing fails
+
+    if (backgroundVideo) {
+      const { width, height } = config;
+      // Trimmed after the loop rather than seeked with -ss: a seek past the end
+      // of the file would restart the loop at 0 instead of the right iteration
+      const skip = startFrame > 0 ? `,trim=start_frame=${startFrame},setpts=PTS-STARTPTS` : '';
+      this.command
+        .input(backgroundVideo)
+        .inputOptions(['-stream_loop', '-1'])
+        .complexFilter([
+          `[1:v]scale=${width}:${height}:force_original_aspect_ratio=increase,crop=${width}:${height},fps=${config.fps}${skip}[bg]`,
+          '[bg][0:v]overlay=shortest=1[out]',
+        ], 'out');
+    } else {
+      this.command.size(`${config.width}x${config.height}`);
+    }
+
+    this.command
       .videoCodec('libx264')
       .outputOptions([
         '-pix_fmt yuv420p',
@@ -25,7 +51,6 @@ export class VideoEncoder {
         '-crf 23',
         '-movflags +faststart'
       ])
-      .size(`${config.width}x${config.height}`)
       .output(this.outputPath)
       .on('end', () => {
         console.log('Video encoding finished: ' + this.outputPath);
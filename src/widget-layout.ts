@@ -0,0 +1,181 @@
+import { Config } from './config';
+import { Rect, SceneLayout } from './layout';
+import { loadNamedEntries, resolveExtendsChain } from './named-entries';
+import { getWidgetType, listWidgetTypes, Widget, WidgetEnv, WidgetOptions } from './widgets';
+
+// Which widgets a frame shows and where (--widgets). Built-in layouts live
+// here; custom ones go in widgets.yaml (or .json), keyed by widget id:
+//
+//   tape-and-cards:
+//     extends: default             # optional; without it the layout starts empty
+//     widgets:
+//       leaderboard: false         # drop a widget of the parent
+//       ticker-tape: { rect: top } # type defaults to the id
+//       cards:
+//         type: stat-cards
+//         rect: [60, 230, 960, 120]
+//         z: 20
+//         options: { count: 5, indicator: rsi }
+//
+// A rect is a named region of the scene (see regionRect) or [x, y, width,
+// height] in pixels of the reference composition, scaled like everything else.
+
+export const REGIONS = ['full', 'top', 'title', 'leaderboard', 'box', 'chart', 'footer'] as const;
+export type RegionName = typeof REGIONS[number];
+
+export interface WidgetPlacement {
+  type: string;
+  rect: RegionName | [number, number, number, number];
+  z?: number; // Defaults to the type's z
+  options?: WidgetOptions;
+}
+
+export type WidgetLayout = Record<string, WidgetPlacement>; // By widget id
+
+type LayoutEntry = {
+  extends?: string;
+  widgets?: Record<string, Partial<WidgetPlacement> | false>;
+};
+
+const BUILTIN_LAYOUTS: Record<string, LayoutEntry> = {
+  default: {
+    widgets: {
+      'title': { type: 'title', rect: 'title' },
+      'leaderboard': { type: 'leaderboard', rect: 'leaderboard' },
+      'line-chart': { type: 'line-chart', rect: 'chart' },
+    },
+  },
+  // Title and world only
+  minimal: {
+    widgets: {
+      'title': { type: 'title', rect: 'title' },
+    },
+  },
+  detailed: {
+    extends: 'default',
+    widgets: {
+      'ticker-tape': { rect: 'top' },
+      'progress-bar': { rect: 'footer' },
+    },
+  },
+};
+
+// Regions are derived from the scene, so they follow stacked and side arrangements
+export function regionRect(name: RegionName, scene: SceneLayout): Rect {
+  const { width, height, scale, margin, box, chart } = scene;
+  const band = (centerY: number): Rect => ({ x: margin, y: centerY - 50 * scale, width: width - 2 * margin, height: 100 * scale });
+  switch (name) {
+    case 'full': return { x: 0, y: 0, width, height };
+    case 'top': return { x: 0, y: 0, width, height: 60 * scale };
+    case 'title': return band(scene.titleY);
+    case 'leaderboard': return band(scene.leaderboardY);
+    case 'box': return { ...box };
+    case 'chart': return { ...chart };
+    case 'footer': {
+      const y = Math.max(box.y + box.height, chart.y + chart.height) + 20 * scale;
+      return { x: margin, y, width: width - 2 * margin, height: Math.max(0, height - y - 20 * scale) };
+    }
+  }
+}
+
+export function validateWidgetLayout(layout: WidgetLayout, source: string): WidgetLayout {
+  const problems: string[] = [];
+  const types = listWidgetTypes().map(t => t.name);
+
+  Object.entries(layout).forEach(([id, placement]) => {
+    for (const key of Object.keys(placement)) {
+      if (!['type', 'rect', 'z', 'options'].includes(key)) problems.push(`${id}: unknown field "${key}"`);
+    }
+
+    if (!types.includes(placement.type)) {
+      problems.push(`${id}: unknown widget type "${placement.type}" (available: ${types.join(', ')})`);
+    }
+
+    const { rect } = placement;
+    if (Array.isArray(rect)) {
+      if (rect.length !== 4 || !rect.every(v => typeof v === 'number' && Number.isFinite(v)) || rect[2] <= 0 || rect[3] <= 0) {
+        problems.push(`${id}: rect must be [x, y, width, height] with a positive size`);
+      }
+    } else if (!REGIONS.includes(rect)) {
+      problems.push(`${id}: rect must be [x, y, width, height] or one of ${REGIONS.join(', ')}`);
+    }
+
+    if (placement.z !== undefined && (typeof placement.z !== 'number' || !Number.isFinite(placement.z))) {
+      problems.push(`${id}: z must be a number`);
+    }
+
+    if (!types.includes(placement.type)) return;
+    const type = getWidgetType(placement.type);
+    const options = placement.options || {};
+    Object.entries(options).forEach(([key, value]) => {
+      if (!(key in type.defaults)) {
+        const known = Object.keys(type.defaults);
+        problems.push(`${id}: unknown option "${key}" for ${type.name}${known.length ? ` (available: ${known.join(', ')})` : ''}`);
+      } else if (typeof value !== typeof type.defaults[key]) {
+        problems.push(`${id}: option ${key} must be a ${typeof type.defaults[key]}`);
+      }
+    });
+    (type.validate?.({ ...type.defaults, ...options }) || []).forEach(p => problems.push(`${id}: ${p}`));
+  });
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid widget layout ${source}:\n  - ${problems.join('\n  - ')}`);
+  }
+  return layout;
+}
+
+// Follows `extends` from `layoutName` (file layouts shadow built-ins) and validates
+function resolveWidgetLayout(layoutName: string, fileLayouts: Record<string, LayoutEntry>): WidgetLayout {
+  const chain = resolveExtendsChain(
+    layoutName,
+    name => fileLayouts[name] ?? BUILTIN_LAYOUTS[name],
+    'widget layout',
+    [...Object.keys(BUILTIN_LAYOUTS), ...Object.keys(fileLayouts)]
+  );
+
+  // Entries override the parent's widget of the same id field by field
+  // (options key by key); `false` removes it
+  const layout: WidgetLayout = {};
+  chain.forEach(entry => {
+    Object.entries(entry.widgets || {}).forEach(([id, placement]) => {
+      if (placement === false) {
+        delete layout[id];
+        return;
+      }
+      const parent = layout[id];
+      layout[id] = {
+        ...parent,
+        ...placement,
+        type: placement.type ?? parent?.type ?? id,
+        options: { ...parent?.options, ...placement.options },
+      } as WidgetPlacement;
+    });
+  });
+
+  return validateWidgetLayout(layout, `"${layoutName}"`);
+}
+
+export const DEFAULT_WIDGET_LAYOUT: WidgetLayout = resolveWidgetLayout('default', {});
+
+export async function loadWidgetLayout(config: Config): Promise<WidgetLayout> {
+  return resolveWidgetLayout(config.widgets, await loadNamedEntries<LayoutEntry>(config.widgetsFile, 'widget layout'));
+}
+
+// Instantiates a layout for a scene, sorted by z (ties keep layout order)
+export function createWidgets(layout: WidgetLayout, env: WidgetEnv): Widget[] {
+  const { scene } = env;
+  return Object.entries(layout)
+    .map(([id, placement]) => {
+      const type = getWidgetType(placement.type);
+      const bounds = Array.isArray(placement.rect)
+        ? {
+            x: placement.rect[0] * scene.scale,
+            y: placement.rect[1] * scene.scale,
+            width: placement.rect[2] * scene.scale,
+            height: placement.rect[3] * scene.scale,
+          }
+        : regionRect(placement.rect, scene);
+      return type.create({ id, bounds, z: placement.z ?? type.z, options: { ...type.defaults, ...placement.options } }, env);
+    })
+    .sort((a, b) => a.z - b.z);
+}
@@ -0,0 +1,904 @@
+import { CanvasRenderingContext2D, Image } from 'canvas';
+import { config } from './config';
+import { PhysicsWorld } from './physics';
+import { MetricSeries } from './metrics';
+import { benchmarkLabel } from './benchmark';
+import { listIndicators } from './indicators';
+import { Rect, SceneLayout } from './layout';
+import { formatTitle, Theme } from './theme';
+import { formatDate, formatMessage, formatNumber, formatPercent, formatWindow, Locale } from './i18n';
+
+// Registry of widgets: everything drawn around or over the physics world. A
+// widget layout (see widget-layout.ts) picks the widgets and their places;
+// the renderer draws the background, widgets with z < 0, the world (arenas,
+// coins, callouts), widgets with z >= 0 and finally the theme logo.
+
+export type WidgetOptions = Record<string, number | string | boolean>;
+
+// Shared by every widget of a renderer
+export interface WidgetEnv {
+  scene: SceneLayout;
+  theme: Theme;
+  locale: Locale;
+  coinImages: Map<string, Image>;
+  coinSymbols: Map<string, string>;
+  medalImages: Map<string, Image>;
+  font(size: number, weight?: string, family?: string): string; // CSS shorthand with the theme and locale fonts
+}
+
+export interface WidgetFrame {
+  ctx: CanvasRenderingContext2D;
+  world: PhysicsWorld;
+  metrics: Map<string, MetricSeries[]>; // Coins on screen only (see lifecycle.ts)
+  time: Date;
+  start: Date;
+  end: Date;
+  frameIndex: number;
+}
+
+export interface Widget {
+  readonly id: string;
+  readonly z: number;
+  readonly bounds: Rect;
+  draw(frame: WidgetFrame): void;
+  // State carried between frames, for simulation snapshots (see snapshot.ts)
+  snapshot?(): unknown;
+  restore?(state: unknown): void;
+}
+
+export interface WidgetSpec<O extends WidgetOptions = WidgetOptions> {
+  id: string;
+  bounds: Rect; // Pixels
+  z: number;
+  options: O; // Type defaults overlaid with the layout's values
+}
+
+// O is the type's options, derived from its defaults (`typeof DEFAULTS`). The
+// layout loader checks every option against the type of its default, so
+// widgets can rely on O without checking again.
+export interface WidgetType<O extends WidgetOptions = WidgetOptions> {
+  name: string;
+  description: string;
+  z: number; // Default z-order
+  defaults: O; // Every option with its default, which also fixes its type
+  validate?(options: O): string[]; // Problems beyond type mismatches
+  create(spec: WidgetSpec<O>, env: WidgetEnv): Widget;
+}
+
+const registry = new Map<string, WidgetType>();
+
+export function registerWidget<O extends WidgetOptions>(type: WidgetType<O>) {
+  if (registry.has(type.name)) {
+    throw new Error(`Widget type already registered: ${type.name}`);
+  }
+  registry.set(type.name, type);
+}
+
+export function listWidgetTypes(): WidgetType[] {
+  return Array.from(registry.values());
+}
+
+export function getWidgetType(name: string): WidgetType {
+  const type = registry.get(name);
+  if (!type) {
+    throw new Error(`Unknown widget type "${name}" (available: ${Array.from(registry.keys()).join(', ')})`);
+  }
+  return type;
+}
+
+abstract class BaseWidget<O extends WidgetOptions = WidgetOptions> implements Widget {
+  readonly id: string;
+  readonly z: number;
+  readonly bounds: Rect;
+  protected readonly options: O;
+
+  constructor(spec: WidgetSpec<O>, protected readonly env: WidgetEnv) {
+    this.id = spec.id;
+    this.z = spec.z;
+    this.bounds = spec.bounds;
+    this.options = spec.options;
+  }
+
+  abstract draw(frame: WidgetFrame): void;
+}
+
+// Benchmark name as shown on screen
+function benchmarkName(locale: Locale): string {
+  return config.benchmark === 'basket' ? locale.messages.basket : benchmarkLabel(config.benchmark);
+}
+
+// Linear interpolation into a series, clamped at both ends
+function interpPrice(series: MetricSeries[], time: number): number {
+  if (series.length === 0) return 0;
+  // Find index after time
+  const idx = series.findIndex(s => s.timestamp > time);
+  if (idx === -1) return series[series.length - 1].price; // After all data
+  if (idx === 0) return series[0].price; // Before all data
+
+  const pNext = series[idx];
+  const pPrev = series[idx - 1];
+  const ratio = (time - pPrev.timestamp) / (pNext.timestamp - pPrev.timestamp);
+  return pPrev.price + (pNext.price - pPrev.price) * ratio;
+}
+
+// Price change over the rolling window ending at `time`, per coin in map order
+function windowGains(metrics: Map<string, MetricSeries[]>, time: number): { id: string; gain: number }[] {
+  const windowMs = config.windowHours * 60 * 60 * 1000;
+  const gains: { id: string; gain: number }[] = [];
+  metrics.forEach((series, id) => {
+    const pEnd = interpPrice(series, time);
+    const pStart = interpPrice(series, time - windowMs);
+    if (pStart > 0 && pEnd > 0) gains.push({ id, gain: (pEnd - pStart) / pStart });
+  });
+  return gains;
+}
+
+export function roundRectPath(ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, r: number) {
+  ctx.beginPath();
+  ctx.moveTo(x + r, y);
+  ctx.arcTo(x + w, y, x + w, y + h, r);
+  ctx.arcTo(x + w, y + h, x, y + h, r);
+  ctx.arcTo(x, y + h, x, y, r);
+  ctx.arcTo(x, y, x + w, y, r);
+  ctx.closePath();
+}
+
+// --- Built-in widgets ---
+
+const TITLE_DEFAULTS = { text: '', size: 64 };
+type TitleOptions = typeof TITLE_DEFAULTS;
+
+// Title from the theme template (or the locale's), shrunk to fit the width
+class TitleWidget extends BaseWidget<TitleOptions> {
+  draw({ ctx }: WidgetFrame) {
+    const { theme, locale, scene } = this.env;
+    const template = this.options.text || theme.title || locale.messages.title;
+    const title = formatTitle(template, {
+      days: config.days,
+      windowHours: config.windowHours,
+      window: formatWindow(locale, config.windowHours),
+      coins: config.coins,
+      benchmark: config.benchmark === 'none' ? '' : benchmarkName(locale),
+    });
+
+    const { x, y, width, height } = this.bounds;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = theme.colors.text;
+    let titleSize = Math.round(this.options.size * scene.scale);
+    ctx.font = this.env.font(titleSize);
+    const titleWidth = ctx.measureText(title).width;
+    if (titleWidth > width) {
+      titleSize = Math.floor(titleSize * width / titleWidth);
+      ctx.font = this.env.font(titleSize);
+    }
+    ctx.fillText(title, x + width / 2, y + height / 2);
+  }
+}
+
+registerWidget({
+  name: 'title',
+  description: 'Video title; `text` overrides the theme/locale title template',
+  z: 10,
+  defaults: TITLE_DEFAULTS,
+  create: (spec, env) => new TitleWidget(spec, env),
+});
+
+// Where a leaderboard row is heading: position (in rows, fractional while
+// moving) and opacity ease from the values at startFrame to the targets
+interface RowTrack {
+  fromSlot: number;
+  toSlot: number;
+  fromAlpha: number;
+  toAlpha: number;
+  startFrame: number;
+}
+
+interface LeaderboardState {
+  order: string[]; // Current ranking, best first, hysteresis applied
+  tracks: Record<string, RowTrack>;
+}
+
+const MEDAL_COLORS = ['#f1c40f', '#bdc3c7', '#cd7f32']; // Drawn for bronze, and for gold/silver if their image failed to load
+const MEDAL_IMAGES = ['gold', 'silver'];
+
+// Updates a ranking (best first) for new gains: drops coins without a gain,
+// appends newcomers by gain, then lets coins move up past a neighbour only
+// when they lead it by more than `hysteresis`
+export function rankWithHysteresis(previous: string[], gains: Map<string, number>, hysteresis: number): string[] {
+  const order = previous.filter(id => gains.has(id));
+  Array.from(gains.keys())
+    .filter(id => !order.includes(id))
+    .sort((a, b) => gains.get(b)! - gains.get(a)!)
+    .forEach(id => order.push(id));
+
+  // Each swap resolves one pair that is out of order by more than the
+  // hysteresis and can't be undone by a later one, so this terminates
+  let swapped = true;
+  while (swapped) {
+    swapped = false;
+    for (let i = 0; i < order.length - 1; i++) {
+      if (gains.get(order[i + 1])! > gains.get(order[i])! + hysteresis) {
+        [order[i], order[i + 1]] = [order[i + 1], order[i]];
+        swapped = true;
+      }
+    }
+  }
+  return order;
+}
+
+function easeInOutCubic(t: number): number {
+  return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+}
+
+const LEADERBOARD_DEFAULTS = {
+  count: 3,
+  orientation: 'horizontal' as 'horizontal' | 'vertical',
+  showGain: true,
+  showSparkline: true,
+  hysteresis: 0.002, // Lead (as a fraction) needed to overtake the coin above
+  swapSeconds: 0.5,
+};
+type LeaderboardOptions = typeof LEADERBOARD_DEFAULTS;
+
+// Top N gainers over the rolling window: medal, icon, ticker, gain and a
+// sparkline per row. Near-ties don't flicker (a coin only overtakes the one
+// above when it leads by more than `hysteresis`) and rank changes slide rows
+// to their new place instead of snapping.
+class LeaderboardWidget extends BaseWidget<LeaderboardOptions> {
+  private order: string[] = [];
+  private tracks = new Map<string, RowTrack>();
+
+  snapshot(): LeaderboardState {
+    return { order: [...this.order], tracks: Object.fromEntries(Array.from(this.tracks, ([id, t]) => [id, { ...t }])) };
+  }
+
+  restore(state: unknown) {
+    const { order, tracks } = state as LeaderboardState;
+    this.order = [...order];
+    this.tracks = new Map(Object.entries(tracks).map(([id, t]) => [id, { ...t }]));
+  }
+
+  draw({ ctx, metrics, time, frameIndex }: WidgetFrame) {
+    const gains = new Map(windowGains(metrics, time.getTime()).map(g => [g.id, g.gain]));
+    this.order = rankWithHysteresis(this.order, gains, this.options.hysteresis);
+    this.updateTracks(frameIndex);
+
+    const count = this.options.count;
+    const vertical = this.options.orientation === 'vertical';
+    const { x, y, width, height } = this.bounds;
+    const cellWidth = vertical ? width : width / count;
+    const cellHeight = vertical ? height / count : height;
+
+    // Leaving rows slide out past the last slot; keep them inside the widget
+    ctx.beginPath();
+    ctx.rect(x, y, width, height);
+    ctx.clip();
+
+    // Bottom-up so a row moving up passes over the ones it overtakes
+    [...this.order].reverse().forEach(id => {
+      const { slot, alpha } = this.rowAt(this.tracks.get(id)!, frameIndex);
+      if (alpha <= 0.01) return;
+      const rank = this.order.indexOf(id);
+      const cellX = vertical ? x : x + slot * cellWidth;
+      const cellY = vertical ? y + slot * cellHeight : y;
+      ctx.save();
+      ctx.globalAlpha = alpha;
+      this.drawRow(ctx, id, rank, gains.get(id)!, metrics.get(id)!, time, { x: cellX, y: cellY, width: cellWidth, height: cellHeight });
+      ctx.restore();
+    });
+  }
+
+  // Starts a transition for every row whose target slot or visibility changed
+  private updateTracks(frameIndex: number) {
+    const { count } = this.options;
+    const present = new Set(this.order);
+    Array.from(this.tracks.keys()).filter(id => !present.has(id)).forEach(id => this.tracks.delete(id));
+
+    this.order.forEach((id, rank) => {
+      // Rows outside the top N wait (invisible) just below the last slot
+      const toSlot = Math.min(rank, count);
+      const toAlpha = rank < count ? 1 : 0;
+      const track = this.tracks.get(id);
+      if (!track) {
+        // Coins on screen from the start appear in place; later ones slide in from below
+        const fromSlot = frameIndex === 0 ? toSlot : count;
+        this.tracks.set(id, { fromSlot, toSlot, fromAlpha: frameIndex === 0 ? toAlpha : 0, toAlpha, startFrame: frameIndex });
+      } else if (track.toSlot !== toSlot || track.toAlpha !== toAlpha) {
+        const { slot, alpha } = this.rowAt(track, frameIndex);
+        this.tracks.set(id, { fromSlot: slot, toSlot, fromAlpha: alpha, toAlpha, startFrame: frameIndex });
+      }
+    });
+  }
+
+  private rowAt(track: RowTrack, frameIndex: number): { slot: number; alpha: number } {
+    const frames = Math.max(1, this.options.swapSeconds * config.fps);
+    const t = easeInOutCubic(Math.min(1, (frameIndex - track.startFrame) / frames));
+    return {
+      slot: track.fromSlot + (track.toSlot - track.fromSlot) * t,
+      alpha: track.fromAlpha + (track.toAlpha - track.fromAlpha) * t,
+    };
+  }
+
+  // Medal | icon | ticker over gain | sparkline, scaled to the cell height
+  private drawRow(
+    ctx: CanvasRenderingContext2D,
+    id: string,
+    rank: number,
+    gain: number,
+    series: MetricSeries[],
+    time: Date,
+    cell: Rect
+  ) {
+    const { colors } = this.env.theme;
+    const { locale } = this.env;
+    const h = cell.height;
+    const pad = h * 0.08;
+    const centerY = cell.y + h / 2;
+    let cursor = cell.x + pad;
+
+    const medalSize = h * 0.6;
+    this.drawMedal(ctx, rank, cursor + medalSize / 2, centerY, medalSize);
+    cursor += medalSize + pad;
+
+    const iconSize = h * 0.5;
+    const img = this.env.coinImages.get(id);
+    if (img) {
+      ctx.save();
+      ctx.beginPath();
+      ctx.arc(cursor + iconSize / 2, centerY, iconSize / 2, 0, Math.PI * 2);
+      ctx.clip();
+      ctx.drawImage(img, cursor, centerY - iconSize / 2, iconSize, iconSize);
+      ctx.restore();
+    }
+    cursor += iconSize + pad;
+
+    const symbol = this.env.coinSymbols.get(id) || id.toUpperCase();
+    const { showGain } = this.options;
+    const gainText = formatPercent(locale, gain);
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'middle';
+    ctx.font = this.env.font(h * (showGain ? 0.36 : 0.48));
+    const symbolWidth = ctx.measureText(symbol).width;
+    ctx.fillStyle = colors.text;
+    ctx.fillText(symbol, cursor, showGain ? centerY - h * 0.16 : centerY);
+    let textWidth = symbolWidth;
+    if (showGain) {
+      ctx.font = this.env.font(h * 0.24);
+      textWidth = Math.max(textWidth, ctx.measureText(gainText).width);
+      ctx.fillStyle = gain >= 0 ? colors.positive : colors.negative;
+      ctx.fillText(gainText, cursor, centerY + h * 0.24);
+    }
+    cursor += textWidth + pad;
+
+    // Sparkline in whatever is left of the cell, when there is room
+    const sparkWidth = Math.min(cell.x + cell.width - pad - cursor, h * 1.6);
+    if (this.options.showSparkline && sparkWidth >= h * 0.5) {
+      this.drawSparkline(ctx, series, time, { x: cursor, y: centerY - h * 0.25, width: sparkWidth, height: h * 0.5 }, gain >= 0 ? colors.positive : colors.negative);
+    }
+  }
+
+  private drawMedal(ctx: CanvasRenderingContext2D, rank: number, cx: number, cy: number, size: number) {
+    const image = rank < MEDAL_IMAGES.length ? this.env.medalImages.get(MEDAL_IMAGES[rank]) : undefined;
+    if (image) {
+      const targetWidth = size * (image.width / image.height);
+      ctx.drawImage(image, cx - targetWidth / 2, cy - size / 2, targetWidth, size);
+      return;
+    }
+
+    const r = size * 0.4;
+    if (rank < MEDAL_COLORS.length) {
+      // Ribbon, then a disc with a highlight
+      ctx.fillStyle = this.env.theme.colors.accent;
+      ctx.beginPath();
+      ctx.moveTo(cx - r * 0.6, cy - size / 2);
+      ctx.lineTo(cx + r * 0.6, cy - size / 2);
+      ctx.lineTo(cx + r * 0.25, cy - r * 0.5);
+      ctx.lineTo(cx - r * 0.25, cy - r * 0.5);
+      ctx.closePath();
+      ctx.fill();
+
+      const gradient = ctx.createRadialGradient(cx - r * 0.3, cy + r * 0.05, r * 0.1, cx, cy + r * 0.2, r);
+      gradient.addColorStop(0, '#ffffff');
+      gradient.addColorStop(0.35, MEDAL_COLORS[rank]);
+      gradient.addColorStop(1, MEDAL_COLORS[rank]);
+      ctx.beginPath();
+      ctx.arc(cx, cy + r * 0.2, r, 0, Math.PI * 2);
+      ctx.fillStyle = gradient;
+      ctx.fill();
+      ctx.lineWidth = Math.max(1, r * 0.12);
+      ctx.strokeStyle = 'rgba(0, 0, 0, 0.25)';
+      ctx.stroke();
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+    } else {
+      ctx.fillStyle = this.env.theme.colors.text;
+    }
+
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.font = this.env.font(r * (rank < MEDAL_COLORS.length ? 1.1 : 1.5));
+    ctx.fillText(String(rank + 1), cx, cy + (rank < MEDAL_COLORS.length ? r * 0.2 : 0));
+  }
+
+  // Price over the rolling window, scaled to the box
+  private drawSparkline(ctx: CanvasRenderingContext2D, series: MetricSeries[], time: Date, box: Rect, color: string) {
+    const end = time.getTime();
+    const start = end - config.windowHours * 60 * 60 * 1000;
+    const points = series
+      .filter(s => s.timestamp > start && s.timestamp < end)
+      .map(s => ({ t: s.timestamp, price: s.price }));
+    points.unshift({ t: start, price: interpPrice(series, start) });
+    points.push({ t: end, price: interpPrice(series, end) });
+
+    const prices = points.map(p => p.price);
+    const min = Math.min(...prices);
+    const range = Math.max(...prices) - min || 1;
+
+    ctx.beginPath();
+    points.forEach((p, i) => {
+      const px = box.x + ((p.t - start) / (end - start)) * box.width;
+      const py = box.y + box.height - ((p.price - min) / range) * box.height;
+      if (i === 0) ctx.moveTo(px, py);
+      else ctx.lineTo(px, py);
+    });
+    ctx.strokeStyle = color;
+    ctx.lineWidth = Math.max(1, box.height * 0.06);
+    ctx.lineJoin = 'round';
+    ctx.stroke();
+  }
+}
+
+registerWidget({
+  name: 'leaderboard',
+  description: 'Top N gainers over the rolling window with medals, gains and sparklines; rows slide when ranks change',
+  z: 10,
+  defaults: LEADERBOARD_DEFAULTS,
+  validate: options => {
+    const problems: string[] = [];
+    const { count } = options;
+    if (!Number.isInteger(count) || count < 1) problems.push('count must be a positive integer');
+    if (!['horizontal', 'vertical'].includes(options.orientation)) problems.push('orientation must be horizontal or vertical');
+    if (options.hysteresis < 0) problems.push('hysteresis must not be negative');
+    if (options.swapSeconds < 0) problems.push('swapSeconds must not be negative');
+    return problems;
+  },
+  create: (spec, env) => new LeaderboardWidget(spec, env),
+});
+
+// Every on-screen coin's performance over the rolling window, rebased to 0%
+class LineChartWidget extends BaseWidget {
+  // Smoothing state for Chart Y-axis
+  private smoothMinVal: number | null = null;
+  private smoothMaxVal: number | null = null;
+
+  snapshot() {
+    return { smoothMinVal: this.smoothMinVal, smoothMaxVal: this.smoothMaxVal };
+  }
+
+  restore(state: unknown) {
+    ({ smoothMinVal: this.smoothMinVal, smoothMaxVal: this.smoothMaxVal } = state as ReturnType<LineChartWidget['snapshot']>);
+  }
+
+  draw({ ctx, metrics: coinMetrics, time: currentDate }: WidgetFrame) {
+    const { scale } = this.env.scene;
+    const { colors } = this.env.theme;
+    const { x: margin, y: chartY, width: chartWidth, height: chartHeight } = this.bounds;
+
+    // Window config (same rolling window as the metrics)
+    const windowMs = config.windowHours * 60 * 60 * 1000;
+    const endTime = currentDate.getTime();
+    const startTime = endTime - windowMs;
+
+    // 1. Prepare Data
+    const chartData = new Map<string, { x: number, y: number }[]>();
+    let targetMin = 0;
+    let targetMax = 0;
+    let first = true;
+    
+    // Store valid coins for legend/colors
+    const activeCoins: string[] = [];
+
+    coinMetrics.forEach((series, id) => {
+        // Filter in window (plus one point before to interpolate start if needed, but simple filter is ok for now)
+        // We actually want points *within* the window, plus we need to know the 'current price' at endTime.
+        
+        // Find points in range [startTime, endTime]
+        const inWindow = series.filter(s => s.timestamp >= startTime && s.timestamp <= endTime);
+        
+        // If no points in window, check if we have surround points to interpolate a straight line?
+        // Simplification: if < 1 point in window, try to use last known point.
+        // Actually, for smoothness, we need to interpolate the EXACT price at `endTime`.
+        
+        // Find indices around endTime
+        let pNextIdx = series.findIndex(s => s.timestamp > endTime);
+        let pPrevIdx = pNextIdx === -1 ? series.length - 1 : pNextIdx - 1;
+        
+        // Interpolate current price
+        let currentPrice = 0;
+        if (pPrevIdx >= 0 && series[pPrevIdx]) {
+            const pPrev = series[pPrevIdx];
+            if (pNextIdx !== -1 && series[pNextIdx]) {
+                const pNext = series[pNextIdx];
+                const ratio = (endTime - pPrev.timestamp) / (pNext.timestamp - pPrev.timestamp);
+                currentPrice = pPrev.price + (pNext.price - pPrev.price) * ratio;
+            } else {
+                currentPrice = pPrev.price; // Flat line extended
+            }
+        } else {
+            return; // No Data
+        }
+        
+        // Determine Base Price (price at startTime).
+        // Similar interpolation for startTime
+        let basePrice = 0;
+        let sNextIdx = series.findIndex(s => s.timestamp > startTime);
+        let sPrevIdx = sNextIdx === -1 ? series.length - 1 : sNextIdx - 1;
+        
+        if (sPrevIdx >= 0 && series[sPrevIdx]) {
+             const sPrev = series[sPrevIdx];
+             if (sNextIdx !== -1 && series[sNextIdx]) {
+                 const sNext = series[sNextIdx];
+                 const ratio = (startTime - sPrev.timestamp) / (sNext.timestamp - sPrev.timestamp);
+                 basePrice = sPrev.price + (sNext.price - sPrev.price) * ratio;
+             } else {
+                 basePrice = sPrev.price;
+             }
+        } else if (sNextIdx !== -1) {
+            // Started after startTime
+            basePrice = series[sNextIdx].price;
+        } else {
+            return;
+        }
+
+        if (basePrice === 0) return;
+
+        // Construct points: Existing known points in window + Current Head
+        const rawPoints = inWindow; 
+        
+        // Normalize
+        const points = rawPoints.map(s => {
+            const timePct = (s.timestamp - startTime) / windowMs;
+            const valPct = (s.price - basePrice) / basePrice;
+            return { x: timePct, y: valPct };
+        });
+        
+        // Add Head Point
+        points.push({ x: 1.0, y: (currentPrice - basePrice) / basePrice });
+
+        // Update Min/Max
+        points.forEach(p => {
+           if (first) {
+             targetMin = p.y;
+             targetMax = p.y;
+             first = false;
+           } else {
+             if (p.y < targetMin) targetMin = p.y;
+             if (p.y > targetMax) targetMax = p.y;
+           }
+        });
+
+        chartData.set(id, points);
+        activeCoins.push(id);
+    });
+    
+    // Add padding to Y range
+    const yRange = targetMax - targetMin;
+    if (yRange < 0.04) {
+        const center = (targetMin + targetMax) / 2;
+        targetMin = center - 0.02;
+        targetMax = center + 0.02;
+    } else {
+        targetMin -= yRange * 0.1;
+        targetMax += yRange * 0.1;
+    }
+    
+    // Smoothing (Damping)
+    if (this.smoothMinVal === null || this.smoothMaxVal === null) {
+        this.smoothMinVal = targetMin;
+        this.smoothMaxVal = targetMax;
+    } else {
+        const alpha = 0.1; // Smoothing factor
+        this.smoothMinVal = this.smoothMinVal + (targetMin - this.smoothMinVal) * alpha;
+        this.smoothMaxVal = this.smoothMaxVal + (targetMax - this.smoothMaxVal) * alpha;
+    }
+    
+    const minVal = this.smoothMinVal;
+    const maxVal = this.smoothMaxVal;
+    
+    // 2. Draw Background
+    ctx.fillStyle = colors.chartBackground;
+    ctx.fillRect(margin, chartY, chartWidth, chartHeight);
+    
+    // Draw Date Label (Inside Chart, Top-Left)
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = colors.chartLabel;
+    ctx.font = this.env.font(24 * scale);
+    const dateStr = formatDate(this.env.locale, currentDate);
+    ctx.fillText(dateStr, margin + 20 * scale, chartY + 40 * scale);
+
+    // Relative mode: make it obvious the lines are not absolute prices
+    if (config.benchmark !== 'none') {
+        ctx.textAlign = 'right';
+        ctx.fillText(formatMessage(this.env.locale.messages.versus, { benchmark: benchmarkName(this.env.locale) }), margin + chartWidth - 20 * scale, chartY + 40 * scale);
+        ctx.textAlign = 'left';
+    }
+    
+    // Zero line
+    if (minVal < 0 && maxVal > 0) {
+        const zeroY = chartY + chartHeight - (0 - minVal) / (maxVal - minVal) * chartHeight;
+        ctx.strokeStyle = colors.chartZeroLine;
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        ctx.moveTo(margin, zeroY);
+        ctx.lineTo(margin + chartWidth, zeroY);
+        ctx.stroke();
+    }
+
+    // 3. Draw Lines
+    activeCoins.forEach((id, index) => {
+        const points = chartData.get(id);
+        if (!points) return;
+        
+        // Generate Color based on ID string hash to be consistent
+        let hash = 0;
+        for (let i = 0; i < id.length; i++) {
+             hash = id.charCodeAt(i) + ((hash << 5) - hash);
+        }
+        const color = colors.lines.length > 0
+            ? colors.lines[Math.abs(hash) % colors.lines.length]
+            : `hsl(${Math.abs(hash % 360)}, 70%, 60%)`;
+        
+        ctx.strokeStyle = color;
+        ctx.lineWidth = 3 * scale;
+        ctx.beginPath();
+        
+        let lastX = 0;
+        let lastY = 0;
+        
+        points.forEach((p, i) => {
+            const px = margin + p.x * chartWidth;
+            const py = chartY + chartHeight - (p.y - minVal) / (maxVal - minVal) * chartHeight;
+            if (i === 0) ctx.moveTo(px, py);
+            else ctx.lineTo(px, py);
+            
+            lastX = px;
+            lastY = py;
+        });
+        ctx.stroke();
+        
+        // 4. Draw Icon at Tip
+        const img = this.env.coinImages.get(id);
+        if (img) {
+            const iconSize = 40 * scale;
+            ctx.save();
+            ctx.beginPath();
+            ctx.arc(lastX, lastY, iconSize/2 + 2, 0, Math.PI*2);
+            ctx.fillStyle = colors.iconBorder;
+            ctx.fill();
+            
+            ctx.beginPath();
+            ctx.arc(lastX, lastY, iconSize/2, 0, Math.PI*2);
+            ctx.clip();
+            ctx.drawImage(img, lastX - iconSize/2, lastY - iconSize/2, iconSize, iconSize);
+            ctx.restore();
+        }
+    });
+    
+    // Label Y-Axis (Min/Max)
+    ctx.font = this.env.font(24 * scale, 'normal', this.env.theme.fonts.monoFamily);
+    ctx.fillStyle = colors.axisLabel;
+    ctx.textAlign = 'right';
+    ctx.fillText(formatPercent(this.env.locale, maxVal, 0, false), margin - 10 * scale, chartY + 24 * scale);
+    ctx.fillText(formatPercent(this.env.locale, minVal, 0, false), margin - 10 * scale, chartY + chartHeight);
+  }
+}
+
+registerWidget({
+  name: 'line-chart',
+  description: 'Smoothed performance lines over the rolling window, with date and axis labels',
+  z: 10,
+  defaults: {},
+  create: (spec, env) => new LineChartWidget(spec, env),
+});
+
+// How far through the video's date range we are, with the current date on the knob
+const PROGRESS_BAR_DEFAULTS = { showDate: true, thickness: 8 };
+type ProgressBarOptions = typeof PROGRESS_BAR_DEFAULTS;
+
+class ProgressBarWidget extends BaseWidget<ProgressBarOptions> {
+  draw({ ctx, time, start, end }: WidgetFrame) {
+    const { scale } = this.env.scene;
+    const { colors } = this.env.theme;
+    const { x, y, width, height } = this.bounds;
+    const span = end.getTime() - start.getTime();
+    const progress = span > 0 ? Math.max(0, Math.min(1, (time.getTime() - start.getTime()) / span)) : 1;
+
+    const { showDate } = this.options;
+    const barHeight = this.options.thickness * scale;
+    const barY = showDate ? y + height * 0.3 : y + height / 2;
+    const knobX = x + width * progress;
+
+    roundRectPath(ctx, x, barY - barHeight / 2, width, barHeight, barHeight / 2);
+    ctx.fillStyle = colors.chartBackground;
+    ctx.fill();
+    if (progress > 0) {
+      roundRectPath(ctx, x, barY - barHeight / 2, Math.max(barHeight, width * progress), barHeight, barHeight / 2);
+      ctx.fillStyle = colors.accent;
+      ctx.fill();
+    }
+    ctx.beginPath();
+    ctx.arc(knobX, barY, barHeight * 1.2, 0, Math.PI * 2);
+    ctx.fillStyle = colors.text;
+    ctx.fill();
+
+    if (showDate) {
+      const label = formatDate(this.env.locale, time);
+      ctx.font = this.env.font(24 * scale);
+      const labelWidth = ctx.measureText(label).width;
+      ctx.fillStyle = colors.chartLabel;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'top';
+      // Follows the knob but stays inside the bar's bounds
+      const labelX = Math.max(x + labelWidth / 2, Math.min(x + width - labelWidth / 2, knobX));
+      ctx.fillText(label, labelX, barY + barHeight * 2);
+    }
+  }
+}
+
+registerWidget({
+  name: 'progress-bar',
+  description: 'Position in the date range, optionally with the current date',
+  z: 10,
+  defaults: PROGRESS_BAR_DEFAULTS,
+  create: (spec, env) => new ProgressBarWidget(spec, env),
+});
+
+// Scrolling strip of "BTC +2.4%" items. Every coin gets a fixed-width slot so
+// the strip doesn't jitter as the numbers change.
+const TICKER_TAPE_DEFAULTS = { speed: 120 };
+type TickerTapeOptions = typeof TICKER_TAPE_DEFAULTS;
+
+class TickerTapeWidget extends BaseWidget<TickerTapeOptions> {
+  draw({ ctx, metrics, time, frameIndex }: WidgetFrame) {
+    const { scale } = this.env.scene;
+    const { colors } = this.env.theme;
+    const { locale, coinImages, coinSymbols } = this.env;
+    const { x, y, width, height } = this.bounds;
+
+    const gains = windowGains(metrics, time.getTime());
+    if (gains.length === 0) return;
+
+    ctx.fillStyle = colors.chartBackground;
+    ctx.fillRect(x, y, width, height);
+
+    const fontSize = height * 0.45;
+    const iconSize = height * 0.6;
+    const gap = fontSize;
+    ctx.font = this.env.font(fontSize);
+    const pctWidth = ctx.measureText(formatPercent(locale, -0.888)).width;
+    const items = gains.map(({ id, gain }) => {
+      const symbol = coinSymbols.get(id) || id.toUpperCase();
+      const symbolWidth = ctx.measureText(symbol).width;
+      return { id, gain, symbol, symbolWidth, slot: iconSize + gap / 3 + symbolWidth + gap / 3 + pctWidth + gap };
+    });
+    const total = items.reduce((sum, item) => sum + item.slot, 0);
+
+    // Frame-based so a resumed render (see snapshot.ts) scrolls identically
+    const offset = ((frameIndex / config.fps) * this.options.speed * scale) % total;
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(x, y, width, height);
+    ctx.clip();
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'middle';
+    const midY = y + height / 2;
+    for (let start = x - offset; start < x + width; start += total) {
+      let cursor = start;
+      items.forEach(item => {
+        if (cursor + item.slot > x && cursor < x + width) {
+          const img = coinImages.get(item.id);
+          if (img) ctx.drawImage(img, cursor, midY - iconSize / 2, iconSize, iconSize);
+          let textX = cursor + iconSize + gap / 3;
+          ctx.fillStyle = colors.text;
+          ctx.fillText(item.symbol, textX, midY);
+          textX += item.symbolWidth + gap / 3;
+          ctx.fillStyle = item.gain >= 0 ? colors.positive : colors.negative;
+          ctx.fillText(formatPercent(locale, item.gain), textX, midY);
+        }
+        cursor += item.slot;
+      });
+    }
+    ctx.restore();
+  }
+}
+
+registerWidget({
+  name: 'ticker-tape',
+  description: 'Scrolling strip with every coin\'s change over the rolling window',
+  z: 10,
+  defaults: TICKER_TAPE_DEFAULTS,
+  create: (spec, env) => new TickerTapeWidget(spec, env),
+});
+
+// One card per coin (best first): icon, symbol, change over the rolling
+// window and optionally an indicator (see indicators.ts)
+const STAT_CARDS_DEFAULTS = { count: 0, columns: 5, indicator: '' };
+type StatCardsOptions = typeof STAT_CARDS_DEFAULTS;
+
+class StatCardsWidget extends BaseWidget<StatCardsOptions> {
+  draw({ ctx, metrics, time }: WidgetFrame) {
+    const { scale } = this.env.scene;
+    const { colors } = this.env.theme;
+    const { locale, coinImages, coinSymbols } = this.env;
+    const { x, y, width, height } = this.bounds;
+
+    const { count } = this.options;
+    const gains = windowGains(metrics, time.getTime()).sort((a, b) => b.gain - a.gain);
+    const shown = count > 0 ? gains.slice(0, count) : gains;
+    if (shown.length === 0) return;
+
+    const columns = Math.min(shown.length, this.options.columns);
+    const rows = Math.ceil(shown.length / columns);
+    const gap = 12 * scale;
+    const cardWidth = (width - gap * (columns - 1)) / columns;
+    const cardHeight = Math.min((height - gap * (rows - 1)) / rows, cardWidth * 0.6);
+    const { indicator } = this.options;
+
+    shown.forEach(({ id, gain }, i) => {
+      const cardX = x + (i % columns) * (cardWidth + gap);
+      const cardY = y + Math.floor(i / columns) * (cardHeight + gap);
+      const pad = cardHeight * 0.12;
+
+      roundRectPath(ctx, cardX, cardY, cardWidth, cardHeight, pad);
+      ctx.fillStyle = colors.chartBackground;
+      ctx.fill();
+
+      const iconSize = cardHeight * 0.35;
+      const img = coinImages.get(id);
+      if (img) ctx.drawImage(img, cardX + pad, cardY + pad, iconSize, iconSize);
+
+      ctx.textAlign = 'left';
+      ctx.textBaseline = 'middle';
+      ctx.fillStyle = colors.text;
+      ctx.font = this.env.font(iconSize * 0.8);
+      ctx.fillText(coinSymbols.get(id) || id.toUpperCase(), cardX + pad * 2 + iconSize, cardY + pad + iconSize / 2);
+
+      ctx.fillStyle = gain >= 0 ? colors.positive : colors.negative;
+      ctx.font = this.env.font(cardHeight * 0.25);
+      ctx.fillText(formatPercent(locale, gain), cardX + pad, cardY + cardHeight * 0.62);
+
+      if (indicator) {
+        // Latest point at or before `time`; indicators are empty until the window has filled
+        const series = metrics.get(id)!;
+        const idx = series.findIndex(s => s.timestamp > time.getTime());
+        const point = series[(idx === -1 ? series.length : idx) - 1];
+        const value = point?.indicators[indicator];
+        if (value !== undefined) {
+          ctx.fillStyle = colors.chartLabel;
+          ctx.font = this.env.font(cardHeight * 0.16, 'normal');
+          ctx.fillText(`${indicator.toUpperCase()} ${formatNumber(locale, value, 2)}`, cardX + pad, cardY + cardHeight * 0.86);
+        }
+      }
+    });
+  }
+}
+
+registerWidget({
+  name: 'stat-cards',
+  description: 'Per-coin cards with the window change and an optional indicator',
+  z: 10,
+  defaults: STAT_CARDS_DEFAULTS,
+  validate: options => {
+    const problems: string[] = [];
+    if (options.columns < 1) problems.push('columns must be at least 1');
+    if (options.count < 0) problems.push('count must not be negative');
+    const names = listIndicators().map(i => i.name);
+    if (options.indicator && !names.includes(options.indicator)) {
+      problems.push(`unknown indicator "${options.indicator}" (available: ${names.join(', ')})`);
+    }
+    return problems;
+  },
+  create: (spec, env) => new StatCardsWidget(spec, env),
+});
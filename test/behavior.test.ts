@@ -0,0 +1,90 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DEFAULT_BEHAVIOR, loadBehaviorProfile, parseOverrides, validateBehavior } from '../src/behavior';
+import { Config } from '../src/config';
+import { useFileFixture } from './fixtures';
+
+describe('behavior profiles', () => {
+  describe('validateBehavior', () => {
+    it('fills unset fields from the default profile', () => {
+      assert.deepEqual(validateBehavior({}, 'test'), DEFAULT_BEHAVIOR);
+      assert.deepEqual(validateBehavior({ restitution: 0.5 }, 'test'), { ...DEFAULT_BEHAVIOR, restitution: 0.5 });
+    });
+
+    it('lists every field problem at once', () => {
+      assert.throws(
+        () => validateBehavior({ bounciness: 1, restitution: 3, frictionAir: '0.1', hopFrames: 2.5, maxVelocity: NaN }, '"x"'),
+        (err: Error) => {
+          assert.match(err.message, /^Invalid behavior profile "x":/);
+          assert.match(err.message, /unknown field "bounciness"/);
+          assert.match(err.message, /restitution=3 is outside \[0, 2\]/);
+          assert.match(err.message, /frictionAir must be a number \(got "0.1"\)/);
+          assert.match(err.message, /hopFrames must be an integer/);
+          assert.match(err.message, /maxVelocity must be a number/);
+          return true;
+        }
+      );
+    });
+
+    it('checks that related fields stay ordered', () => {
+      assert.throws(
+        () => validateBehavior({ radiusBase: 10, radiusMin: 20, hopForceMin: 2, hopForceMax: 1, recoveryVelocity: 20 }, 'test'),
+        (err: Error) => {
+          assert.match(err.message, /radiusMin <= radiusBase <= radiusMax does not hold/);
+          assert.match(err.message, /hopForceMin is greater than hopForceMax/);
+          assert.match(err.message, /recoveryVelocity must be below stunVelocity/);
+          return true;
+        }
+      );
+    });
+  });
+
+  it('parses name=value overrides', () => {
+    assert.deepEqual(parseOverrides(['maxVelocity=15', ' hopFrames = 4 ']), { maxVelocity: 15, hopFrames: 4 });
+    assert.throws(() => parseOverrides(['maxVelocity']), /Behavior override "maxVelocity" must look like name=value/);
+    assert.throws(() => parseOverrides(['maxVelocity=']), /must look like name=value/);
+  });
+
+  describe('loadBehaviorProfile', () => {
+    const fixture = useFileFixture('behaviors.yaml', [
+      'bouncy:',
+      '  extends: chaotic',
+      '  restitution: 1.3',
+      'bouncier:',
+      '  extends: bouncy',
+      '  maxVelocity: 30',
+      '  stunVelocity: 40',
+      'calm:',
+      '  maxVelocity: 2',
+      'sluggish:',
+      '  hopIntervalMinMs: 5000',
+    ]);
+    const load = (behavior: string, behaviorOverrides: string[] = []) =>
+      loadBehaviorProfile({ behavior, behaviorsFile: fixture.file, behaviorOverrides } as Config);
+
+    it('uses the built-in profiles', async () => {
+      assert.deepEqual(await load('default'), DEFAULT_BEHAVIOR);
+      assert.equal((await load('chaotic')).maxVelocity, 20);
+    });
+
+    it('merges an extends chain over the defaults, children last', async () => {
+      const profile = await load('bouncier');
+      assert.equal(profile.maxVelocity, 30); // bouncier
+      assert.equal(profile.restitution, 1.3); // bouncy
+      assert.equal(profile.hopForceMax, 5.0); // chaotic
+      assert.equal(profile.radiusBase, DEFAULT_BEHAVIOR.radiusBase);
+    });
+
+    it('lets file profiles shadow built-ins of the same name', async () => {
+      const profile = await load('calm');
+      assert.equal(profile.maxVelocity, 2);
+      assert.equal(profile.restitution, DEFAULT_BEHAVIOR.restitution);
+    });
+
+    it('applies overrides last and validates the merged result', async () => {
+      assert.equal((await load('bouncy', ['restitution=0.8'])).restitution, 0.8);
+      await assert.rejects(load('bouncy', ['restitution=5']), /Invalid behavior profile "bouncy":\n {2}- restitution=5 is outside/);
+      await assert.rejects(load('sluggish'), /hopIntervalMinMs is greater than hopIntervalMaxMs/);
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import { BinanceProvider } from '../src/binance';
+import { config } from '../src/config';
+import { candleAt, createMockExchange } from '../src/mock-exchange';
+import { CoinData, MarketChartData, MarketDataProvider } from '../src/provider';
+
+const HOUR = 60 * 60 * 1000;
+
+class FakeUniverse implements MarketDataProvider {
+  readonly name = 'fake';
+  readonly seriesKey = 'fake_usd';
+
+  async fetchTopCoins(): Promise<CoinData[]> {
+    return [{ id: 'solana', symbol: 'sol', name: 'Solana', image: '' }];
+  }
+
+  async fetchMarketChart(): Promise<MarketChartData> {
+    throw new Error('Price history should come from klines');
+  }
+}
+
+describe('BinanceProvider against the mock exchange', () => {
+  const saved = { klineBaseUrl: config.klineBaseUrl, cacheDir: config.cacheDir, klineInterval: config.klineInterval };
+  let server: http.Server;
+  let requests = 0;
+
+  before(async () => {
+    server = createMockExchange();
+    server.on('request', () => requests++);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    config.klineBaseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    config.klineInterval = '1h';
+  });
+
+  after(async () => {
+    Object.assign(config, saved);
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    config.cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'binance-'));
+    requests = 0;
+  });
+
+  afterEach(async () => {
+    await fs.remove(config.cacheDir);
+  });
+
+  it('parses klines into OHLCV candles and close prices', async () => {
+    const provider = new BinanceProvider(new FakeUniverse());
+    const { prices, candles } = await provider.fetchMarketChart('bitcoin', 2);
+
+    assert.ok(candles && candles.length >= 47 && candles.length <= 49);
+    assert.equal(requests, 1);
+    candles.forEach((candle, i) => {
+      const [openTime, open, high, low, close, volume] = candleAt(`BTC${config.klineQuote}`, candle.timestamp, HOUR);
+      assert.deepEqual(candle, {
+        timestamp: openTime,
+        open: Number(open),
+        high: Number(high),
+        low: Number(low),
+        close: Number(close),
+        volume: Number(volume),
+      });
+      assert.deepEqual(prices[i], [candle.timestamp, candle.close]);
+    });
+  });
+
+  it('pages past the per-request limit without gaps or duplicates', async () => {
+    const provider = new BinanceProvider(new FakeUniverse());
+    const { candles } = await provider.fetchMarketChart('ethereum', 60);
+
+    assert.ok(candles && candles.length >= 1439);
+    assert.equal(requests, 2);
+    candles.slice(1).forEach((candle, i) => assert.equal(candle.timestamp - candles[i].timestamp, HOUR));
+  });
+
+  it('maps coin ids to exchange symbols from the universe', async () => {
+    const provider = new BinanceProvider(new FakeUniverse());
+    await assert.rejects(provider.fetchMarketChart('solana', 1), /Unknown symbol for solana/);
+
+    await provider.fetchTopCoins({ limit: 1, excludeStables: false, excludeWrapped: false });
+    const { candles } = await provider.fetchMarketChart('solana', 1);
+    const [, open] = candleAt(`SOL${config.klineQuote}`, candles![0].timestamp, HOUR);
+    assert.equal(candles![0].open, Number(open));
+  });
+});
@@ -0,0 +1,121 @@
+import assert from 'node:assert/strict';
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { after, afterEach, beforeEach, describe, it } from 'node:test';
+import { CacheEntry, cacheKey, fetchWithCache, listEntries, purgeEntries, readEntry, ttlFor } from '../src/cache';
+import { config } from '../src/config';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('cache', () => {
+  const saved = { cacheDir: config.cacheDir, cacheTtlHours: config.cacheTtlHours };
+
+  beforeEach(async () => {
+    config.cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'cache-'));
+    config.cacheTtlHours = { default: 12, markets: 1, klines: 24 };
+  });
+
+  afterEach(async () => {
+    await fs.remove(config.cacheDir);
+  });
+
+  after(() => {
+    Object.assign(config, saved);
+  });
+
+  // Writes an entry as if it had been fetched `ageHours` ago
+  async function writeEntry(namespace: string, params: Record<string, unknown>, data: unknown, ageHours: number) {
+    const key = cacheKey(namespace, params);
+    const entry: CacheEntry = { key, namespace, params, fetchedAt: Date.now() - ageHours * HOUR, data };
+    await fs.writeJson(path.join(config.cacheDir, `${key}.json`), entry);
+    return key;
+  }
+
+  describe('cacheKey', () => {
+    it('is the same for any key order, including nested objects', () => {
+      assert.equal(
+        cacheKey('klines', { pair: 'BTCUSDT', days: 30, extra: { a: 1, b: [1, 2] } }),
+        cacheKey('klines', { extra: { b: [1, 2], a: 1 }, days: 30, pair: 'BTCUSDT' })
+      );
+    });
+
+    it('differs by namespace, values and array order', () => {
+      const key = cacheKey('klines', { pair: 'BTCUSDT', days: 30 });
+      assert.match(key, /^klines_[0-9a-f]{16}$/);
+      assert.notEqual(key, cacheKey('markets', { pair: 'BTCUSDT', days: 30 }));
+      assert.notEqual(key, cacheKey('klines', { pair: 'BTCUSDT', days: 31 }));
+      assert.notEqual(cacheKey('klines', { ids: [1, 2] }), cacheKey('klines', { ids: [2, 1] }));
+    });
+  });
+
+  it('uses the namespace TTL, falling back to the default', () => {
+    assert.equal(ttlFor('markets'), HOUR);
+    assert.equal(ttlFor('klines'), 24 * HOUR);
+    assert.equal(ttlFor('market_chart'), 12 * HOUR);
+  });
+
+  describe('fetchWithCache', () => {
+    it('stores the first fetch and serves it while fresh', async () => {
+      let calls = 0;
+      const fetch = async () => ++calls;
+      assert.equal(await fetchWithCache('markets', { page: 1 }, fetch), 1);
+      assert.equal(await fetchWithCache('markets', { page: 1 }, fetch), 1);
+      assert.equal(calls, 1);
+
+      const entry = await readEntry<number>(cacheKey('markets', { page: 1 }));
+      assert.deepEqual(entry && { namespace: entry.namespace, params: entry.params, data: entry.data }, {
+        namespace: 'markets', params: { page: 1 }, data: 1,
+      });
+    });
+
+    it('refetches once the namespace TTL has passed', async () => {
+      await writeEntry('markets', { page: 1 }, 'old', 2);
+      await writeEntry('klines', { page: 1 }, 'old', 2);
+
+      assert.equal(await fetchWithCache('markets', { page: 1 }, async () => 'new'), 'new');
+      assert.equal(await fetchWithCache('klines', { page: 1 }, async () => 'new'), 'old');
+      assert.equal((await readEntry(cacheKey('markets', { page: 1 })))?.data, 'new');
+    });
+
+    it('serves a stale entry when the refetch fails', async () => {
+      await writeEntry('markets', { page: 1 }, 'old', 48);
+      const data = await fetchWithCache('markets', { page: 1 }, async () => {
+        throw new Error('offline');
+      });
+      assert.equal(data, 'old');
+    });
+
+    it('rethrows when nothing is cached', async () => {
+      await assert.rejects(
+        fetchWithCache('markets', { page: 1 }, async () => {
+          throw new Error('offline');
+        }),
+        /offline/
+      );
+      assert.equal(await readEntry(cacheKey('markets', { page: 1 })), null);
+    });
+
+    it('ignores files without entry metadata', async () => {
+      const key = cacheKey('markets', { page: 1 });
+      await fs.writeJson(path.join(config.cacheDir, `${key}.json`), [1, 2, 3]);
+      assert.equal(await fetchWithCache('markets', { page: 1 }, async () => 'new'), 'new');
+    });
+  });
+
+  it('lists and purges expired entries only', async () => {
+    const fresh = await writeEntry('klines', { pair: 'BTCUSDT' }, 1, 2);
+    const expired = await writeEntry('markets', { page: 1 }, 2, 2);
+    await fs.writeJson(path.join(config.cacheDir, 'legacy.json'), [1]);
+
+    const entries = await listEntries();
+    assert.deepEqual(entries.map(e => [e.key, e.namespace, e.expired]), [
+      [fresh, 'klines', false],
+      ['legacy', 'legacy', true],
+      [expired, 'markets', true],
+    ].sort((a, b) => String(a[0]).localeCompare(String(b[0]))));
+
+    assert.deepEqual((await purgeEntries({ expiredOnly: true })).sort(), [expired, 'legacy'].sort());
+    assert.deepEqual((await listEntries()).map(e => e.key), [fresh]);
+  });
+});
@@ -0,0 +1,31 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { config, validateConfig } from '../src/config';
+
+describe('validateConfig', () => {
+  it('accepts the defaults', () => {
+    assert.doesNotThrow(() => validateConfig(config));
+  });
+
+  it('rejects a correlation threshold outside [0, 1)', () => {
+    for (const correlationThreshold of [-0.1, 1, 1.5, NaN]) {
+      assert.throws(() => validateConfig({ ...config, correlationThreshold }), /--correlation_threshold must be in \[0, 1\)/);
+    }
+    assert.doesNotThrow(() => validateConfig({ ...config, correlationThreshold: 0 }));
+  });
+
+  it('rejects unknown fill, benchmark and normalization choices in one error', () => {
+    const options = {
+      ...config,
+      quality: { ...config.quality, fill: 'lin' },
+      benchmark: 'sol',
+      normalization: { ...config.normalization, strategy: 'zscores' },
+    } as unknown as typeof config;
+    assert.throws(() => validateConfig(options), (err: Error) => {
+      assert.match(err.message, /--fill must be one of previous, linear, none \(got "lin"\)/);
+      assert.match(err.message, /--benchmark must be one of none, btc, eth, basket \(got "sol"\)/);
+      assert.match(err.message, /--normalization must be one of global-percentile, zscore, rank, fixed, rolling \(got "zscores"\)/);
+      return true;
+    });
+  });
+});
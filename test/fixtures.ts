@@ -0,0 +1,27 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { after, before } from 'node:test';
+
+export interface FileFixture {
+  dir: string;
+  file: string;
+}
+
+// Writes `lines` to `name` in a fresh temp dir before the suite's tests and
+// removes the dir afterwards. Fields are filled in once the before hook ran.
+export function useFileFixture(name: string, lines: string[]): FileFixture {
+  const fixture: FileFixture = { dir: '', file: '' };
+
+  before(async () => {
+    fixture.dir = await fs.mkdtemp(path.join(os.tmpdir(), `${path.parse(name).name}-`));
+    fixture.file = path.join(fixture.dir, name);
+    await fs.writeFile(fixture.file, lines.join('\n'));
+  });
+
+  after(async () => {
+    await fs.remove(fixture.dir);
+  });
+
+  return fixture;
+}
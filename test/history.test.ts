@@ -0,0 +1,121 @@
+import assert from 'node:assert/strict';
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { HistoryProvider, HistoryStore } from '../src/history';
+import { chartGranularity } from '../src/coingecko';
+import { CoinData, MarketChartData, MarketDataProvider } from '../src/provider';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// Records the requested windows and answers with one point per step up to now
+class FakeProvider implements MarketDataProvider {
+  readonly name = 'fake';
+  readonly seriesKey = 'fake_usd';
+  readonly requests: number[] = [];
+
+  constructor(readonly granularity?: (days: number) => string) {}
+
+  async fetchTopCoins(): Promise<CoinData[]> {
+    return [];
+  }
+
+  async fetchMarketChart(_coinId: string, days: number): Promise<MarketChartData> {
+    this.requests.push(days);
+    const step = days > 90 ? DAY : HOUR;
+    const end = Math.floor(Date.now() / step) * step;
+    const prices: [number, number][] = [];
+    for (let t = end - days * DAY + step; t <= end; t += step) prices.push([t, t / HOUR]);
+    return { prices };
+  }
+}
+
+describe('history', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'history-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  describe('HistoryStore', () => {
+    it('appends only new or changed points and reads the last write', async () => {
+      const store = new HistoryStore(dir);
+      assert.equal(await store.merge('src', 'btc', { prices: [[1, 10], [2, 20]] }), 2);
+      assert.equal(await store.merge('src', 'btc', { prices: [[1, 10], [2, 20]] }), 0);
+      assert.equal(await store.merge('src', 'btc', { prices: [[2, 21], [3, 30]] }), 2);
+
+      assert.deepEqual((await store.read('src', 'btc', 0, 10)).prices, [[1, 10], [2, 21], [3, 30]]);
+      assert.deepEqual((await store.read('src', 'btc', 2, 2)).prices, [[2, 21]]);
+      assert.deepEqual(await store.range('src', 'btc'), { first: 1, last: 3 });
+      assert.equal((await fs.readFile(path.join(dir, 'src', 'btc.jsonl'), 'utf8')).trim().split('\n').length, 4);
+    });
+
+    it('skips a torn final line', async () => {
+      const store = new HistoryStore(dir);
+      await store.merge('src', 'btc', { prices: [[1, 10]] });
+      await fs.appendFile(path.join(dir, 'src', 'btc.jsonl'), '[2, 2');
+      assert.deepEqual((await store.read('src', 'btc', 0, 10)).prices, [[1, 10]]);
+    });
+
+    it('keeps candles', async () => {
+      const store = new HistoryStore(dir);
+      const candle = { timestamp: 1, open: 1, high: 2, low: 0.5, close: 1.5, volume: 10 };
+      await store.merge('src', 'btc', { prices: [[1, 1.5]], candles: [candle] });
+      assert.deepEqual(await store.read('src', 'btc', 0, 10), { prices: [[1, 1.5]], candles: [candle] });
+    });
+
+    it('keeps series kinds apart', async () => {
+      const store = new HistoryStore(dir);
+      await store.merge('a', 'btc', { prices: [[1, 10]] });
+      assert.equal(await store.range('b', 'btc'), null);
+    });
+  });
+
+  describe('HistoryProvider', () => {
+    it('backfills the window once, then fetches only the missing days', async () => {
+      const inner = new FakeProvider(chartGranularity);
+      const provider = new HistoryProvider(inner, new HistoryStore(dir), 2);
+      const first = await provider.fetchMarketChart('btc', 30);
+      const second = await provider.fetchMarketChart('btc', 30);
+      assert.deepEqual(inner.requests, [30, 2]);
+      assert.deepEqual(second.prices, first.prices);
+    });
+
+    it('stores series by granularity', async () => {
+      const inner = new FakeProvider(chartGranularity);
+      const provider = new HistoryProvider(inner, new HistoryStore(dir), 2);
+      await provider.fetchMarketChart('btc', 30);
+      await provider.fetchMarketChart('btc', 120);
+      assert.deepEqual((await fs.readdir(dir)).sort(), ['fake_usd_daily', 'fake_usd_hourly']);
+    });
+
+    it('catches up with the full window when a shorter fetch would change the granularity', async () => {
+      const inner = new FakeProvider(chartGranularity);
+      const provider = new HistoryProvider(inner, new HistoryStore(dir), 2);
+      await provider.fetchMarketChart('btc', 120);
+      await provider.fetchMarketChart('btc', 120);
+      assert.deepEqual(inner.requests, [120, 120]);
+    });
+
+    it('uses the plain series key for sources with a fixed granularity', async () => {
+      const inner = new FakeProvider();
+      const provider = new HistoryProvider(inner, new HistoryStore(dir), 2);
+      await provider.fetchMarketChart('btc', 120);
+      await provider.fetchMarketChart('btc', 120);
+      assert.deepEqual(await fs.readdir(dir), ['fake_usd']);
+      assert.deepEqual(inner.requests, [120, 2]);
+    });
+  });
+});
+
+describe('chartGranularity', () => {
+  it('follows CoinGecko\'s automatic granularity', () => {
+    assert.deepEqual([1, 2, 90, 91, 365].map(chartGranularity), ['5m', 'hourly', 'hourly', 'daily', 'daily']);
+  });
+});
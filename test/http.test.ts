@@ -0,0 +1,163 @@
+import assert from 'node:assert/strict';
+import { AxiosError, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { Clock, getRetryAfterMs, mapWithConcurrency, RequestScheduler, TokenBucket } from '../src/http';
+
+// Sleeping advances time instantly and records how long each wait was
+class FakeClock implements Clock {
+  time = 1_000_000;
+  readonly sleeps: number[] = [];
+
+  now() {
+    return this.time;
+  }
+
+  async sleep(ms: number) {
+    this.sleeps.push(Math.round(ms));
+    this.time += ms;
+  }
+}
+
+function httpError(status?: number, headers: Record<string, string> = {}): AxiosError {
+  const config = { headers: {} } as InternalAxiosRequestConfig;
+  const response = status === undefined
+    ? undefined
+    : { status, statusText: '', headers, config, data: null } as AxiosResponse;
+  return new AxiosError(`status ${status}`, status === undefined ? 'ECONNRESET' : undefined, config, null, response);
+}
+
+// An axios instance whose get() replays `outcomes` in order
+function fakeClient(outcomes: (AxiosError | string)[]) {
+  const calls: number[] = [];
+  const client = {
+    get: async () => {
+      calls.push(calls.length);
+      const outcome = outcomes.shift();
+      if (outcome instanceof AxiosError) throw outcome;
+      return { data: outcome };
+    },
+  } as unknown as AxiosInstance;
+  return { client, calls };
+}
+
+describe('TokenBucket', () => {
+  it('allows a burst, then paces at the refill rate', async () => {
+    const clock = new FakeClock();
+    const bucket = new TokenBucket({ requestsPerMinute: 60, burst: 3 }, clock);
+    for (let i = 0; i < 5; i++) await bucket.take();
+    assert.deepEqual(clock.sleeps, [1000, 1000]);
+  });
+
+  it('refills while idle, up to the burst', async () => {
+    const clock = new FakeClock();
+    const bucket = new TokenBucket({ requestsPerMinute: 60, burst: 2 }, clock);
+    await bucket.take();
+    await bucket.take();
+    clock.time += 60_000;
+    for (let i = 0; i < 3; i++) await bucket.take();
+    assert.deepEqual(clock.sleeps, [1000]);
+  });
+
+  it('waits a full interval after being drained', async () => {
+    const clock = new FakeClock();
+    const bucket = new TokenBucket({ requestsPerMinute: 30, burst: 5 }, clock);
+    bucket.drain();
+    await bucket.take();
+    assert.deepEqual(clock.sleeps, [2000]);
+  });
+});
+
+describe('getRetryAfterMs', () => {
+  const now = Date.parse('2024-01-01T00:00:00Z');
+
+  it('reads delay-seconds', () => {
+    assert.equal(getRetryAfterMs(httpError(429, { 'retry-after': '3' }), now), 3000);
+    assert.equal(getRetryAfterMs(httpError(429, { 'retry-after': '0.5' }), now), 500);
+  });
+
+  it('reads an HTTP date relative to now, never negative', () => {
+    assert.equal(getRetryAfterMs(httpError(429, { 'retry-after': 'Mon, 01 Jan 2024 00:00:10 GMT' }), now), 10_000);
+    assert.equal(getRetryAfterMs(httpError(429, { 'retry-after': 'Sun, 31 Dec 2023 23:59:00 GMT' }), now), 0);
+  });
+
+  it('returns null without a usable header or response', () => {
+    assert.equal(getRetryAfterMs(httpError(429), now), null);
+    assert.equal(getRetryAfterMs(httpError(429, { 'retry-after': 'soon' }), now), null);
+    assert.equal(getRetryAfterMs(httpError(), now), null);
+    assert.equal(getRetryAfterMs(new Error('boom'), now), null);
+  });
+});
+
+describe('RequestScheduler', () => {
+  const limit = { requestsPerMinute: 6000, burst: 100 };
+  const retry = { maxRetries: 3, baseDelayMs: 500, maxDelayMs: 1500 };
+
+  beforeEach(() => {
+    mock.method(console, 'warn', () => {});
+    // Full jitter picks from [0, backoff); pin it to the top of the range
+    mock.method(Math, 'random', () => 0.999);
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('backs off exponentially up to the cap on server errors and timeouts', async () => {
+    const clock = new FakeClock();
+    const { client, calls } = fakeClient([httpError(500), httpError(), httpError(503), 'ok']);
+    const response = await new RequestScheduler('test', client, limit, retry, clock).get('/x');
+    assert.equal(response.data, 'ok');
+    assert.equal(calls.length, 4);
+    assert.deepEqual(clock.sleeps, [500, 999, 1499]);
+  });
+
+  it('waits for Retry-After on 429 instead of the backoff', async () => {
+    const clock = new FakeClock();
+    const { client } = fakeClient([httpError(429, { 'retry-after': '7' }), 'ok']);
+    await new RequestScheduler('test', client, limit, retry, clock).get('/x');
+    assert.deepEqual(clock.sleeps, [7000]);
+  });
+
+  it('drains the bucket on 429, so the retry waits for a fresh token', async () => {
+    const clock = new FakeClock();
+    const { client } = fakeClient([httpError(429, { 'retry-after': '0' }), 'ok']);
+    await new RequestScheduler('test', client, limit, retry, clock).get('/x');
+    assert.deepEqual(clock.sleeps, [0, 10]);
+  });
+
+  it('gives up after maxRetries', async () => {
+    const clock = new FakeClock();
+    const { client, calls } = fakeClient([httpError(500), httpError(500), httpError(500), httpError(500), 'ok']);
+    await assert.rejects(new RequestScheduler('test', client, limit, retry, clock).get('/x'), /status 500/);
+    assert.equal(calls.length, 4);
+  });
+
+  it('does not retry client errors', async () => {
+    const clock = new FakeClock();
+    const { client, calls } = fakeClient([httpError(404), 'ok']);
+    await assert.rejects(new RequestScheduler('test', client, limit, retry, clock).get('/x'), /status 404/);
+    assert.equal(calls.length, 1);
+    assert.deepEqual(clock.sleeps, []);
+  });
+});
+
+describe('mapWithConcurrency', () => {
+  it('keeps at most `limit` calls in flight and preserves order', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const results = await mapWithConcurrency([5, 1, 4, 2, 3], 2, async (item, index) => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise(r => setTimeout(r, item));
+      inFlight--;
+      return `${index}:${item}`;
+    });
+    assert.equal(peak, 2);
+    assert.deepEqual(results, ['0:5', '1:1', '2:4', '3:2', '4:3']);
+  });
+
+  it('handles an empty list and a limit above the item count', async () => {
+    assert.deepEqual(await mapWithConcurrency([], 4, async x => x), []);
+    assert.deepEqual(await mapWithConcurrency([1, 2], 10, async x => x * 2), [2, 4]);
+  });
+});
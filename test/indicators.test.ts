@@ -0,0 +1,65 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { IndicatorContext, listIndicators, registerIndicator, resolveIndicators } from '../src/indicators';
+
+function context(prices: number[], volumes?: number[], stepHours = 1): IndicatorContext {
+  const logReturns = prices.slice(1).map((p, i) => Math.log(p / prices[i]));
+  return { prices, logReturns, volumes, stepHours };
+}
+
+function compute(name: string, ctx: IndicatorContext): number {
+  return resolveIndicators([name])[0].compute(ctx);
+}
+
+const close = (actual: number, expected: number) =>
+  assert.ok(Math.abs(actual - expected) < 1e-9, `expected ${expected}, got ${actual}`);
+
+describe('indicators', () => {
+  it('rsi: 100 when only rising, 0 when only falling, 50 when balanced or flat', () => {
+    assert.equal(compute('rsi', context([1, 2, 3, 4])), 100);
+    assert.equal(compute('rsi', context([4, 3, 2, 1])), 0);
+    close(compute('rsi', context([1, 2, 1])), 50);
+    assert.equal(compute('rsi', context([5, 5, 5])), 50);
+  });
+
+  it('drawdown: largest fall from a running peak', () => {
+    close(compute('drawdown', context([100, 120, 90, 110, 100])), 0.25);
+    assert.equal(compute('drawdown', context([1, 2, 3])), 0);
+  });
+
+  it('momentum: sign follows the recent direction, 0 when flat', () => {
+    assert.equal(compute('momentum', context([10, 10, 10, 10])), 0);
+    assert.ok(compute('momentum', context([1, 2, 3, 4, 5, 6, 7, 8])) > 0);
+    assert.ok(compute('momentum', context([8, 7, 6, 5, 4, 3, 2, 1])) < 0);
+  });
+
+  it('sharpe: mean over stddev of returns, scaled to one day', () => {
+    const ctx = { prices: [], logReturns: [0.02, 0], stepHours: 1 };
+    close(compute('sharpe', ctx), Math.SQRT1_2 * Math.sqrt(24));
+    close(compute('sharpe', { ...ctx, stepHours: 24 }), Math.SQRT1_2);
+    assert.equal(compute('sharpe', context([1, 2, 4, 8])), 0);
+  });
+
+  it('volume_z: latest volume against the window, 0 without volume', () => {
+    close(compute('volume_z', context([1, 1, 1, 1], [1, 1, 1, 4])), 1.5);
+    assert.equal(compute('volume_z', context([1, 1, 1, 1], [3, 3, 3, 3])), 0);
+    assert.equal(compute('volume_z', context([1, 1])), 0);
+    assert.equal(resolveIndicators(['volume_z'])[0].requiresVolume, true);
+  });
+
+  it('resolves names in the requested order and rejects unknown ones', () => {
+    assert.deepEqual(resolveIndicators(['sharpe', 'rsi']).map(i => i.name), ['sharpe', 'rsi']);
+    assert.throws(
+      () => resolveIndicators(['rsi', 'macd']),
+      /Unknown indicator "macd" \(available: rsi, drawdown, momentum, sharpe, volume_z\)/
+    );
+  });
+
+  it('registers custom indicators once', () => {
+    const last = { name: 'last', description: 'Latest price', compute: ({ prices }: IndicatorContext) => prices[prices.length - 1] };
+    registerIndicator(last);
+    assert.equal(compute('last', context([1, 2, 3])), 3);
+    assert.ok(listIndicators().includes(last));
+    assert.throws(() => registerIndicator(last), /Indicator already registered: last/);
+  });
+});
@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict';
+import path from 'path';
+import fs from 'fs-extra';
+import { describe, it } from 'node:test';
+import { loadNamedEntries, NamedEntry, resolveExtendsChain } from '../src/named-entries';
+import { useFileFixture } from './fixtures';
+
+interface Entry extends NamedEntry {
+  value?: number;
+}
+
+describe('named entries', () => {
+  describe('loadNamedEntries', () => {
+    const fixture = useFileFixture('entries.yaml', [
+      'small:',
+      '  value: 1',
+      'big:',
+      '  extends: small',
+      '  value: 2',
+    ]);
+
+    const write = async (name: string, text: string) => {
+      const file = path.join(fixture.dir, name);
+      await fs.writeFile(file, text);
+      return file;
+    };
+
+    it('reads YAML, and JSON by extension', async () => {
+      assert.deepEqual(await loadNamedEntries<Entry>(fixture.file, 'entry'), {
+        small: { value: 1 },
+        big: { extends: 'small', value: 2 },
+      });
+      const json = await write('entries.json', '{ "small": { "value": 1 } }');
+      assert.deepEqual(await loadNamedEntries<Entry>(json, 'entry'), { small: { value: 1 } });
+    });
+
+    it('treats a missing or empty file as no entries', async () => {
+      assert.deepEqual(await loadNamedEntries(path.join(fixture.dir, 'missing.yaml'), 'entry'), {});
+      assert.deepEqual(await loadNamedEntries(await write('empty.yaml', ''), 'entry'), {});
+    });
+
+    it('rejects files that are not a map of names', async () => {
+      const list = await write('list.yaml', '- small\n- big\n');
+      await assert.rejects(loadNamedEntries(list, 'theme'), new RegExp(`${list} must map theme names to settings`));
+      await assert.rejects(loadNamedEntries(await write('scalar.json', '3'), 'theme'), /must map theme names to settings/);
+    });
+  });
+
+  describe('resolveExtendsChain', () => {
+    const entries: Record<string, Entry> = {
+      base: { value: 1 },
+      middle: { extends: 'base', value: 2 },
+      top: { extends: 'middle' },
+      self: { extends: 'self' },
+      'loop-a': { extends: 'loop-b' },
+      'loop-b': { extends: 'loop-a' },
+      dangling: { extends: 'gone' },
+    };
+    const names = Object.keys(entries);
+    const resolve = (name: string) => resolveExtendsChain(name, n => entries[n], 'widget layout', [...names, 'base']);
+
+    it('returns the chain root first', () => {
+      assert.deepEqual(resolve('top'), [entries.base, entries.middle, entries.top]);
+      assert.deepEqual(resolve('base'), [entries.base]);
+    });
+
+    it('rejects cycles, naming the entry that closes the loop', () => {
+      assert.throws(() => resolve('self'), /Widget layout "self" extends itself/);
+      assert.throws(() => resolve('loop-a'), /Widget layout "loop-a" extends itself/);
+      assert.throws(() => resolve('loop-b'), /Widget layout "loop-b" extends itself/);
+    });
+
+    it('rejects unknown names, also further up the chain, listing each name once', () => {
+      const available = `\\(available: ${names.join(', ')}\\)`;
+      assert.throws(() => resolve('nope'), new RegExp(`Unknown widget layout "nope" ${available}`));
+      assert.throws(() => resolve('dangling'), new RegExp(`Unknown widget layout "gone" ${available}`));
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { MetricSeries } from '../src/metrics';
+import {
+  DEFAULT_NORMALIZATION_OPTIONS,
+  getNormalizationStrategy,
+  listNormalizationStrategies,
+} from '../src/normalization';
+
+const HOUR = 60 * 60 * 1000;
+
+// Hourly series from [rawTrend, rawVolatility] pairs
+function series(points: [number, number][]): MetricSeries[] {
+  return points.map(([rawTrend, rawVolatility], i) => ({
+    timestamp: i * HOUR,
+    trend: NaN,
+    volatility: NaN,
+    rawTrend,
+    rawVolatility,
+    price: 1,
+    indicators: {},
+  }));
+}
+
+function normalize(name: string, all: Record<string, MetricSeries[]>, options = DEFAULT_NORMALIZATION_OPTIONS) {
+  const map = new Map(Object.entries(all));
+  getNormalizationStrategy(name).apply(map, options);
+  return map;
+}
+
+const values = (s: MetricSeries[], key: 'trend' | 'volatility') => s.map(p => Math.round(p[key] * 1e6) / 1e6);
+
+describe('normalization', () => {
+  beforeEach(() => {
+    mock.method(console, 'log', () => {});
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('keeps every strategy within trend [-1, 1] and volatility [0, 1]', () => {
+    const wild = series(Array.from({ length: 48 }, (_, i) => [Math.sin(i) * (i % 7) * 0.01, (i % 5) * 0.02]));
+    const calm = series(Array.from({ length: 48 }, (_, i) => [Math.cos(i) * 1e-4, 1e-4 + (i % 3) * 1e-5]));
+    for (const { name } of listNormalizationStrategies()) {
+      normalize(name, { wild, calm }).forEach(s => s.forEach(p => {
+        assert.ok(p.trend >= -1 && p.trend <= 1, `${name} trend ${p.trend}`);
+        assert.ok(p.volatility >= 0 && p.volatility <= 1, `${name} volatility ${p.volatility}`);
+      }));
+    }
+  });
+
+  it('treats a flat series as calm, not average', () => {
+    // rank only orders coins against each other, so a lone coin sits mid-range
+    for (const { name } of listNormalizationStrategies().filter(s => s.name !== 'rank')) {
+      const flat = series(Array.from({ length: 24 }, () => [0, 0]));
+      normalize(name, { flat });
+      assert.deepEqual(values(flat, 'trend'), new Array(24).fill(0), name);
+      assert.deepEqual(values(flat, 'volatility'), new Array(24).fill(0), name);
+    }
+  });
+
+  it('global-percentile maps p5..p95 of all coins onto the full range', () => {
+    const a = series(Array.from({ length: 51 }, (_, i) => [i, i / 100]));
+    const b = series(Array.from({ length: 50 }, (_, i) => [51 + i, (51 + i) / 100]));
+    normalize('global-percentile', { a, b });
+    assert.deepEqual(values(a, 'trend').slice(0, 6), [-1, -1, -1, -1, -1, -1]);
+    assert.equal(values(a, 'trend')[50], 0);
+    assert.equal(values(b, 'trend')[49], 1);
+    assert.equal(values(a, 'volatility')[0], 0);
+    assert.equal(values(b, 'volatility')[44], 1);
+    assert.equal(values(b, 'volatility')[49], 1);
+  });
+
+  it('zscore scales each coin by its own spread', () => {
+    const small = series([[-1e-4, 1], [1e-4, 3]]);
+    const large = series([[-1, 10], [1, 30]]);
+    normalize('zscore', { small, large });
+    for (const s of [small, large]) {
+      assert.deepEqual(values(s, 'trend'), [-0.5, 0.5]);
+      assert.deepEqual(values(s, 'volatility'), [0.25, 0.75]);
+    }
+  });
+
+  it('rank orders the coins at each timestamp', () => {
+    const a = series([[0.1, 0.3], [0, 0]]);
+    const b = series([[-0.2, 0.1], [1, 1]]);
+    const c = series([[0.3, 0.2], [-1, 2]]);
+    normalize('rank', { a, b, c });
+    assert.deepEqual([a, b, c].map(s => s[0].trend), [0, -1, 1]);
+    assert.deepEqual([a, b, c].map(s => s[0].volatility), [1, 0, 0.5]);
+    assert.deepEqual([a, b, c].map(s => s[1].trend), [0, 1, -1]);
+  });
+
+  it('fixed divides by the configured scales and clamps', () => {
+    const s = series([[0.001, 0.005], [-0.01, 0.05]]);
+    normalize('fixed', { s }, { ...DEFAULT_NORMALIZATION_OPTIONS, trendScale: 0.002, volScale: 0.01 });
+    assert.deepEqual(values(s, 'trend'), [0.5, -1]);
+    assert.deepEqual(values(s, 'volatility'), [0.5, 1]);
+  });
+
+  it('rolling only looks at the trailing window', () => {
+    const s = series([[100, 100], [0, 0], [1, 1]]);
+    normalize('rolling', { s }, { ...DEFAULT_NORMALIZATION_OPTIONS, windowHours: 1 });
+    // At the last point the window holds [0, 1]: z = +1
+    assert.equal(values(s, 'trend')[2], 0.5);
+    assert.equal(values(s, 'volatility')[2], 0.75);
+    assert.equal(s[0].trend, 0);
+  });
+
+  it('rejects unknown strategies and lists the available ones', () => {
+    assert.throws(() => getNormalizationStrategy('zscores'), /Unknown normalization strategy "zscores" \(available: global-percentile, zscore, rank, fixed, rolling\)/);
+  });
+});
@@ -0,0 +1,55 @@
+import assert from 'node:assert/strict';
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { ReplayProvider } from '../src/replay';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('ReplayProvider', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'replay-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it('reads a market_chart-shaped JSON file', async () => {
+    await fs.writeJson(path.join(dir, 'bitcoin.json'), { prices: [[0, 100], [HOUR, 101]] });
+    const { prices } = await new ReplayProvider(dir).fetchMarketChart('bitcoin', 30);
+    assert.deepEqual(prices, [[0, 100], [HOUR, 101]]);
+  });
+
+  it('reads a bare array and parses date strings and numeric strings', async () => {
+    await fs.writeJson(path.join(dir, 'bitcoin.json'), [['1970-01-01T01:00:00Z', '101'], [0, 100]]);
+    const { prices } = await new ReplayProvider(dir).fetchMarketChart('bitcoin', 30);
+    assert.deepEqual(prices, [[0, 100], [HOUR, 101]]);
+  });
+
+  it('reads CSV with any column order and a close column', async () => {
+    await fs.writeFile(path.join(dir, 'solana.csv'), 'open,Close,Date\r\n1,20,1970-01-01T02:00:00Z\r\n1,10,0\r\n\r\n');
+    const { prices } = await new ReplayProvider(dir).fetchMarketChart('solana', 30);
+    assert.deepEqual(prices, [[0, 10], [2 * HOUR, 20]]);
+  });
+
+  it('rejects CSV without a timestamp or price column', async () => {
+    await fs.writeFile(path.join(dir, 'solana.csv'), 'when,value\n0,1\n');
+    await assert.rejects(new ReplayProvider(dir).fetchMarketChart('solana', 30), /needs a timestamp and a price/);
+  });
+
+  it('rejects unparseable timestamps', async () => {
+    await fs.writeJson(path.join(dir, 'bitcoin.json'), [['yesterday-ish', 1]]);
+    await assert.rejects(new ReplayProvider(dir).fetchMarketChart('bitcoin', 30), /Invalid timestamp/);
+  });
+
+  it('counts days back from the last point', async () => {
+    const day = 24 * HOUR;
+    await fs.writeJson(path.join(dir, 'bitcoin.json'), [[0, 1], [day, 2], [3 * day, 3]]);
+    const { prices } = await new ReplayProvider(dir).fetchMarketChart('bitcoin', 2);
+    assert.deepEqual(prices, [[day, 2], [3 * day, 3]]);
+  });
+});
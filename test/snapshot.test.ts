@@ -0,0 +1,127 @@
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { config } from '../src/config';
+import { PhysicsWorld, WorldInputs } from '../src/physics';
+import { findSnapshot, MATTER_VERSION, runFingerprint, SimulationSnapshot, writeSnapshot } from '../src/snapshot';
+
+const IDS = ['bitcoin', 'ethereum', 'solana', 'dogecoin', 'cardano', 'tron', 'ripple', 'chainlink'];
+const FRAME_MS = 1000 / config.fps;
+
+// Trends and volatilities that drift over time, so hops, stuns and
+// collisions all happen within a few seconds
+function inputsAt(simTimeMs: number): WorldInputs {
+  const t = simTimeMs / 1000;
+  return {
+    coinMetrics: new Map(IDS.map((id, i) => [id, {
+      trend: Math.sin(t * 0.7 + i),
+      vol: 0.5 + 0.5 * Math.sin(t * 1.3 + i * 2),
+    }])),
+  };
+}
+
+function createWorld(): PhysicsWorld {
+  return new PhysicsWorld(undefined, undefined, 1234);
+}
+
+function run(world: PhysicsWorld, frames: number) {
+  for (let f = 0; f < frames; f++) world.advance(FRAME_MS, inputsAt);
+}
+
+describe('PhysicsWorld snapshots', () => {
+  it('resumes a run exactly where the snapshot was taken', () => {
+    const full = createWorld();
+    full.setupCoins(IDS);
+    run(full, 90);
+    // Written to disk as JSON, so round-trip it the same way
+    const saved = JSON.parse(JSON.stringify(full.snapshot()));
+    run(full, 120);
+
+    const resumed = createWorld();
+    resumed.setupCoins(IDS, new Map(), []);
+    resumed.restore(saved);
+    run(resumed, 120);
+
+    assert.deepEqual(resumed.snapshot(), full.snapshot());
+    full.coinBodies.forEach((cb, id) => {
+      assert.deepEqual(resumed.renderPosition(resumed.coinBodies.get(id)!), full.renderPosition(cb), id);
+    });
+  });
+
+  it('renders the same frames for the same seed', () => {
+    const a = createWorld();
+    const b = createWorld();
+    a.setupCoins(IDS);
+    b.setupCoins(IDS);
+    run(a, 60);
+    run(b, 60);
+    // Matter body ids come from a process-wide counter, so compare the
+    // simulated state rather than the raw engine
+    assert.deepEqual(b.snapshot().coins, a.snapshot().coins);
+    a.coinBodies.forEach((cb, id) => {
+      assert.deepEqual(b.coinBodies.get(id)!.body.position, cb.body.position, id);
+    });
+  });
+});
+
+describe('snapshot files', () => {
+  let dir: string;
+  let warn: ReturnType<typeof mock.method>;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'snapshots-'));
+    warn = mock.method(console, 'warn', () => {});
+  });
+
+  afterEach(async () => {
+    mock.restoreAll();
+    await fs.remove(dir);
+  });
+
+  async function write(frame: number, fingerprint: string) {
+    const world = createWorld();
+    world.setupCoins(IDS);
+    await writeSnapshot(dir, {
+      frame,
+      fingerprint,
+      world: world.snapshot(),
+      events: {} as SimulationSnapshot['events'],
+      renderer: {} as SimulationSnapshot['renderer'],
+    });
+    return path.join(dir, `frame-${String(frame).padStart(6, '0')}.json`);
+  }
+
+  it('records the installed matter-js version', async () => {
+    const file = await write(150, 'run');
+    assert.equal(MATTER_VERSION, require('matter-js/package.json').version);
+    assert.equal((await fs.readJson(file)).matterVersion, MATTER_VERSION);
+  });
+
+  it('finds the latest snapshot of the same run at or before the frame', async () => {
+    await write(150, 'run');
+    await write(300, 'run');
+    await write(200, 'other');
+    assert.equal((await findSnapshot(dir, 299, 'run'))?.frame, 150);
+    assert.equal((await findSnapshot(dir, 300, 'run'))?.frame, 300);
+    assert.equal(await findSnapshot(dir, 149, 'run'), null);
+  });
+
+  it('refuses snapshots written under another matter-js version', async () => {
+    await write(150, 'run');
+    const file = await write(300, 'run');
+    await fs.writeJson(file, { ...(await fs.readJson(file)), matterVersion: '0.19.0' });
+
+    assert.equal((await findSnapshot(dir, 300, 'run'))?.frame, 150);
+    assert.match(String(warn.mock.calls[0].arguments[0]), /Ignoring frame 300: written with matter-js 0\.19\.0/);
+  });
+
+  it('includes the matter-js version in the run fingerprint', () => {
+    const settings = { seed: 1 };
+    const hash = (payload: unknown) => crypto.createHash('sha1').update(JSON.stringify(payload)).digest('hex').slice(0, 16);
+    assert.equal(runFingerprint(settings, [1, 2]), hash({ settings, data: [1, 2], matterVersion: MATTER_VERSION }));
+    assert.notEqual(runFingerprint(settings, [1, 2]), hash({ settings, data: [1, 2], matterVersion: '0.19.0' }));
+  });
+});
@@ -0,0 +1,68 @@
+import assert from 'node:assert/strict';
+import path from 'path';
+import fs from 'fs-extra';
+import { before, describe, it } from 'node:test';
+import { Config } from '../src/config';
+import { DEFAULT_THEME, loadTheme } from '../src/theme';
+import { useFileFixture } from './fixtures';
+
+describe('loadTheme', () => {
+  const fixture = useFileFixture('themes.yaml', [
+    'branded:',
+    '  extends: neon',
+    '  title: "Best of {window}"',
+    '  colors: { accent: "#123456" }',
+    '  logo: { image: brand/logo.png }',
+    'series:',
+    '  extends: branded',
+    '  background: { dim: 0.5 }',
+    'light:',
+    '  extends: neon',
+    '  colors: { text: "#000000" }',
+    'broken:',
+    '  extends: default',
+    '  title: "{nope}"',
+    '  colors: { notAColor: red, text: 5 }',
+  ]);
+  const load = (theme: string) => loadTheme({ theme, themesFile: fixture.file } as Config);
+
+  before(async () => {
+    await fs.ensureDir(path.join(fixture.dir, 'brand'));
+    await fs.writeFile(path.join(fixture.dir, 'brand', 'logo.png'), '');
+  });
+
+  it('returns the default theme by default', async () => {
+    assert.deepEqual(await load('default'), DEFAULT_THEME);
+  });
+
+  it('merges an extends chain key by key, children last', async () => {
+    const theme = await load('series');
+    assert.equal(theme.title, 'Best of {window}');
+    assert.equal(theme.colors.accent, '#123456');
+    assert.equal(theme.colors.axisLabel, '#00ffd5'); // From neon
+    assert.equal(theme.colors.dizzy, DEFAULT_THEME.colors.dizzy); // Neither sets it
+    assert.deepEqual(theme.background.colors, ['#05010f', '#1a0533']);
+    assert.equal(theme.background.dim, 0.5);
+  });
+
+  it('resolves file paths against the themes file and fills logo defaults', async () => {
+    const theme = await load('branded');
+    assert.equal(theme.logo?.image, path.join(fixture.dir, 'brand', 'logo.png'));
+    assert.equal(theme.logo?.position, 'bottom-right');
+  });
+
+  it('lets file themes shadow built-ins of the same name', async () => {
+    const theme = await load('light');
+    assert.equal(theme.colors.text, '#000000');
+    assert.equal(theme.colors.axisLabel, '#00ffd5');
+  });
+
+  it('lists every problem of an invalid theme at once', async () => {
+    await assert.rejects(load('broken'), (err: Error) => {
+      assert.match(err.message, /unknown placeholder \{nope\}/);
+      assert.match(err.message, /unknown color "notAColor"/);
+      assert.match(err.message, /colors\.text must be a color/);
+      return true;
+    });
+  });
+});
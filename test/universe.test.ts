@@ -0,0 +1,65 @@
+import assert from 'node:assert/strict';
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { config } from '../src/config';
+import { ReplayProvider } from '../src/replay';
+import { filterExcluded, resolveCategory, resolveSelection } from '../src/universe';
+
+const COINS = [
+  { id: 'bitcoin', symbol: 'btc' },
+  { id: 'tether', symbol: 'usdt' },
+  { id: 'wrapped-bitcoin', symbol: 'wbtc' },
+  { id: 'some-bridge-token', symbol: 'WETH' },
+];
+
+describe('universe', () => {
+  it('keeps wrapped tokens unless asked to exclude them', async () => {
+    const selection = await resolveSelection({ ...config, coinsList: [], watchlist: '', category: '' });
+    assert.equal(selection.excludeWrapped, false);
+    assert.deepEqual(filterExcluded(COINS, { ...selection, excludeStables: true }).map(c => c.id), [
+      'bitcoin', 'wrapped-bitcoin', 'some-bridge-token',
+    ]);
+  });
+
+  it('excludes wrapped tokens by id or symbol', () => {
+    const coins = filterExcluded(COINS, { limit: 10, excludeStables: false, excludeWrapped: true });
+    assert.deepEqual(coins.map(c => c.id), ['bitcoin', 'tether']);
+  });
+
+  it('never excludes explicitly listed coins', () => {
+    const coins = filterExcluded(COINS, { ids: COINS.map(c => c.id), limit: 4, excludeStables: true, excludeWrapped: true });
+    assert.equal(coins.length, 4);
+  });
+
+  it('resolves category aliases regardless of case', () => {
+    assert.equal(resolveCategory('MEME'), 'meme-token');
+    assert.equal(resolveCategory('l1'), 'layer-1');
+    assert.equal(resolveCategory('real-world-assets-rwa'), 'real-world-assets-rwa');
+  });
+
+  describe('categories from a replay coin list', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'universe-'));
+    });
+
+    afterEach(async () => {
+      await fs.remove(dir);
+    });
+
+    it('selects categories by alias or name regardless of case', async () => {
+      await fs.writeJson(path.join(dir, 'coins.json'), [
+        { id: 'dogecoin', symbol: 'doge', name: 'Dogecoin', image: '', categories: ['Meme'] },
+        { id: 'bitcoin', symbol: 'btc', name: 'Bitcoin', image: '', categories: ['layer-1'] },
+      ]);
+      const provider = new ReplayProvider(dir);
+      for (const category of ['meme', 'meme-token', 'MEME']) {
+        const coins = await provider.fetchTopCoins({ limit: 10, category, excludeStables: true, excludeWrapped: true });
+        assert.deepEqual(coins.map(c => c.id), ['dogecoin'], category);
+      }
+    });
+  });
+});
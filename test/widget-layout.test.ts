@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { Config } from '../src/config';
+import { DEFAULT_WIDGET_LAYOUT, loadWidgetLayout } from '../src/widget-layout';
+import { useFileFixture } from './fixtures';
+
+describe('loadWidgetLayout', () => {
+  const fixture = useFileFixture('widgets.yaml', [
+    'tape:',
+    '  extends: detailed',
+    '  widgets:',
+    '    leaderboard: { options: { count: 5 } }',
+    '    progress-bar: false',
+    '    cards: { type: stat-cards, rect: [60, 230, 960, 120], z: 20 }',
+    'tape-vertical:',
+    '  extends: tape',
+    '  widgets:',
+    '    leaderboard: { rect: box, options: { orientation: vertical } }',
+    'broken:',
+    '  widgets:',
+    '    clock: { rect: top }',
+    '    leaderboard: { rect: [0, 0, -1, 10], options: { count: "3", colour: red } }',
+  ]);
+  const load = (widgets: string) => loadWidgetLayout({ widgets, widgetsFile: fixture.file } as Config);
+
+  it('uses the built-in default layout', async () => {
+    assert.deepEqual(await load('default'), DEFAULT_WIDGET_LAYOUT);
+    assert.deepEqual(Object.keys(DEFAULT_WIDGET_LAYOUT), ['title', 'leaderboard', 'line-chart']);
+  });
+
+  it('follows extends across built-in and file layouts', async () => {
+    const layout = await load('tape');
+    assert.deepEqual(Object.keys(layout), ['title', 'leaderboard', 'line-chart', 'ticker-tape', 'cards']);
+    assert.deepEqual(layout['ticker-tape'], { type: 'ticker-tape', rect: 'top', options: {} }); // Type defaults to the id
+    assert.deepEqual(layout.leaderboard, { type: 'leaderboard', rect: 'leaderboard', options: { count: 5 } });
+    assert.deepEqual(layout.cards, { type: 'stat-cards', rect: [60, 230, 960, 120], z: 20, options: {} });
+  });
+
+  it('overrides a parent widget field by field and options key by key', async () => {
+    const layout = await load('tape-vertical');
+    assert.deepEqual(layout.leaderboard, { type: 'leaderboard', rect: 'box', options: { count: 5, orientation: 'vertical' } });
+  });
+
+  it('lists every problem of an invalid layout at once', async () => {
+    await assert.rejects(load('broken'), (err: Error) => {
+      assert.match(err.message, /clock: unknown widget type "clock"/);
+      assert.match(err.message, /leaderboard: rect must be \[x, y, width, height\] with a positive size/);
+      assert.match(err.message, /leaderboard: option count must be a number/);
+      assert.match(err.message, /leaderboard: unknown option "colour"/);
+      return true;
+    });
+  });
+});
@@ -0,0 +1,45 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { rankWithHysteresis } from '../src/widgets';
+
+const gainsOf = (entries: Record<string, number>) => new Map(Object.entries(entries));
+
+describe('rankWithHysteresis', () => {
+  it('ranks newcomers by gain', () => {
+    assert.deepEqual(rankWithHysteresis([], gainsOf({ a: 0.01, b: 0.05, c: -0.02 }), 0.002), ['b', 'a', 'c']);
+  });
+
+  it('keeps the order while a lead stays within the hysteresis', () => {
+    const order = rankWithHysteresis(['a', 'b'], gainsOf({ a: 0.010, b: 0.011 }), 0.002);
+    assert.deepEqual(order, ['a', 'b']);
+  });
+
+  it('swaps once a coin leads by more than the hysteresis', () => {
+    const order = rankWithHysteresis(['a', 'b'], gainsOf({ a: 0.010, b: 0.013 }), 0.002);
+    assert.deepEqual(order, ['b', 'a']);
+  });
+
+  it('does not flicker on a near-tie that alternates', () => {
+    let order = ['a', 'b'];
+    for (let f = 0; f < 20; f++) {
+      const wobble = f % 2 === 0 ? 0.001 : -0.001;
+      order = rankWithHysteresis(order, gainsOf({ a: 0.02, b: 0.02 + wobble }), 0.002);
+      assert.deepEqual(order, ['a', 'b'], `frame ${f}`);
+    }
+  });
+
+  it('moves a coin up several places in one update', () => {
+    const order = rankWithHysteresis(['a', 'b', 'c', 'd'], gainsOf({ a: 0.04, b: 0.03, c: 0.02, d: 0.10 }), 0.002);
+    assert.deepEqual(order, ['d', 'a', 'b', 'c']);
+  });
+
+  it('drops coins without a gain and appends new ones below', () => {
+    const order = rankWithHysteresis(['a', 'b', 'c'], gainsOf({ a: 0.03, c: 0.02, e: 0.021 }), 0.002);
+    assert.deepEqual(order, ['a', 'c', 'e']);
+  });
+
+  it('orders strictly by gain with zero hysteresis', () => {
+    const order = rankWithHysteresis(['c', 'b', 'a'], gainsOf({ a: 0.3, b: 0.2, c: 0.1 }), 0);
+    assert.deepEqual(order, ['a', 'b', 'c']);
+  });
+});